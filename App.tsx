@@ -1,48 +1,109 @@
-import React, { useState, useEffect } from 'react';
-import { BrainCircuit, Loader2, Sparkles, CheckCircle, AlertTriangle, Layers, Settings as SettingsIcon, Trash2 } from 'lucide-react';
-import { getOpenTabs, applyCleanup, getGroupingStrategy } from './services/tabManager';
+import React, { useState, useEffect, useRef } from 'react';
+import { BrainCircuit, Loader2, Sparkles, CheckCircle, AlertTriangle, Layers, Settings as SettingsIcon, Trash2, Undo2, Archive, History, FolderPlus, AppWindow } from 'lucide-react';
+import { getOpenTabs, applyCleanup, getGroupingStrategy, getExistingGroups, getUndoHistory, undoOperation, mergeAllWindows, focusGroup } from './services/tabManager';
 import { categorizeTabs, checkAnalysisStatus, resetAnalysisStatus } from './services/aiService';
 import { loadSettings, saveSettings } from './services/settingsService';
-import { detectCleanupCandidates } from './services/cleanupService';
+import { isProviderConfigured } from './services/providerService';
+import { detectCleanupCandidates, defaultCleanupActions, hasClosableCandidates, tabIdsWithAction } from './services/cleanupService';
+import { describeValidation } from './services/validationService';
+import { groupTabsLocally } from './services/heuristicService';
+import { applyGroupingRules, mergeRuleProposals } from './services/rulesService';
+import { proposedAssignments, recordReviewEdits } from './services/learningService';
+import { loadColorRegistry, applyColorRegistry, paletteFor } from './services/colorService';
+import { withReviewIds, windowLabels, moveTab, removeTab, removeTabs, addExistingGroup, updateGroup, mergeGroups, splitGroup, createGroup, deleteGroup } from './services/reviewService';
+import { sessionFromProposals, sessionFromWindow, exportSession, parseSessionFile, importSession } from './services/sessionService';
+import { saveGroupsAsBookmarks, openFolderAsGroup } from './services/bookmarkService';
+import { loadStash, stashGroup, restoreStashedGroup, renameStashedGroup, deleteStashedGroup } from './services/stashService';
+import { getPendingReview, clearPendingReview } from './services/scheduleService';
+import { loadGroupPrefs, updateGroupPrefs, isSticky, isUserMade, groupMode } from './services/groupPrefsService';
+import { loadGraveyard, reopenGraveyardEntries, deleteGraveyardEntries, clearGraveyard } from './services/graveyardService';
 import SettingsComponent from './components/Settings';
-import { Tab, TabGroupProposal, AppState, GroupingStrategy, Settings, CleanupCandidate } from './types';
+import { Tab, AppState, GroupingStrategy, Settings, CleanupSettings, CleanupCandidate, CleanupAction, CleanupSummary, ExistingGroup, CategorizationProgress, CategorizationResult, UndoEntry, StashedGroup, GraveyardEntry, PendingReview, GroupPrefs, TabGroupColor, ReviewGroup, WindowScope, ExistingGroupMode } from './types';
 import GroupPreview from './components/GroupPreview';
 import CleanupList from './components/CleanupList';
 import ReviewTabs from './components/ReviewTabs';
+import UnsortedTabs from './components/UnsortedTabs';
+import ExistingGroups from './components/ExistingGroups';
+import StashList from './components/StashList';
+import GraveyardList from './components/GraveyardList';
+import ExportMenu from './components/ExportMenu';
+
+function formatAgo(timestamp: number): string {
+  const mins = Math.floor((Date.now() - timestamp) / 60_000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function describeCleanup({ closed, discarded }: CleanupSummary): string {
+  const parts = [
+    ...(closed > 0 ? [`Closed ${closed} tab${closed !== 1 ? 's' : ''}`] : []),
+    ...(discarded > 0 ? [`${closed > 0 ? 'discarded' : 'Discarded'} ${discarded} to free memory`] : []),
+  ];
+  return `${parts.join(', ')}.`;
+}
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [tabs, setTabs] = useState<Tab[]>([]);
-  const [proposals, setProposals] = useState<TabGroupProposal[]>([]);
+  const [existingGroups, setExistingGroups] = useState<ExistingGroup[]>([]);
+  const [proposals, setProposals] = useState<ReviewGroup[]>([]);
+  const [unassignedTabIds, setUnassignedTabIds] = useState<number[]>([]);
+  const [withheldTabIds, setWithheldTabIds] = useState<number[]>([]);
+  const [reviewNotes, setReviewNotes] = useState<string[]>([]);
+  const [reviewOrigin, setReviewOrigin] = useState<string | null>(null);
+  const [ruleTabIds, setRuleTabIds] = useState<Set<number>>(new Set());
+  const [engineAssignments, setEngineAssignments] = useState<Map<number, string>>(new Map());
+  const [progress, setProgress] = useState<CategorizationProgress | null>(null);
   const [errorMsg, setErrorMsg] = useState<string>('');
   const [strategy, setStrategy] = useState<GroupingStrategy | null>(null);
   const [settings, setSettings] = useState<Settings | null>(null);
   const [cleanupCandidates, setCleanupCandidates] = useState<CleanupCandidate[]>([]);
-  const [selectedCleanupIds, setSelectedCleanupIds] = useState<Set<number>>(new Set());
+  const [cleanupActions, setCleanupActions] = useState<Map<number, CleanupAction>>(new Map());
+  const [cleanupSummary, setCleanupSummary] = useState<CleanupSummary | null>(null);
   const [cleanupOnly, setCleanupOnly] = useState(false);
+  const [undoHistory, setUndoHistory] = useState<UndoEntry[]>([]);
+  const [canUndoLast, setCanUndoLast] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const successTimer = useRef<number | undefined>(undefined);
+  const [stash, setStash] = useState<StashedGroup[]>([]);
+  const [stashBusy, setStashBusy] = useState(false);
+  const [groupPrefs, setGroupPrefs] = useState<Record<string, GroupPrefs>>({});
+  const [graveyard, setGraveyard] = useState<GraveyardEntry[]>([]);
+  const [graveyardBusy, setGraveyardBusy] = useState(false);
 
-  // Initial load of tabs
+  // Initial load of tabs. The settings state is still null in this closure, so
+  // the loaded settings are passed on explicitly.
   useEffect(() => {
-    loadTabs();
     getGroupingStrategy().then(setStrategy);
-    loadSettings().then(setSettings);
+    loadGroupPrefs().then(setGroupPrefs);
+
+    loadSettings().then(async (loaded) => {
+      setSettings(loaded);
+      loadTabs(loaded.windows.scope);
 
-    // Check if there is an ongoing or finished background analysis
-    checkAnalysisStatus().then(async ({ status, proposals, error }) => {
+      // Check if there is an ongoing or finished background analysis
+      const { status, proposals, unassignedTabIds, withheldTabIds, ruleTabIds, validation, error } = await checkAnalysisStatus();
       if (status === 'analyzing') {
         setAppState(AppState.ANALYZING);
       } else if (status === 'success' && proposals && proposals.length > 0) {
         // Fetch tabs fresh so detectCleanupCandidates has accurate data
-        const currentTabs = await getOpenTabs();
+        const currentTabs = await getOpenTabs(loaded.windows.scope);
         setTabs(currentTabs);
-        setProposals(proposals);
-        const candidates = detectCleanupCandidates(currentTabs);
-        setCleanupCandidates(candidates);
-        setSelectedCleanupIds(new Set(candidates.map(c => c.tabId)));
-        setAppState(AppState.REVIEW);
+        showGroupingResult(
+          { proposals, unassignedTabIds: unassignedTabIds || [], withheldTabIds, ruleTabIds },
+          currentTabs,
+          validation ? describeValidation(validation) : [],
+          loaded.cleanup
+        );
       } else if (status === 'error') {
         setErrorMsg(error || 'Failed to analyze tabs in background.');
         setAppState(AppState.ERROR);
+      } else {
+        const review = await getPendingReview();
+        if (review) showPendingReview(review, await getOpenTabs(loaded.windows.scope), loaded.cleanup);
       }
     });
   }, []);
@@ -52,18 +113,18 @@ const App: React.FC = () => {
     if (appState === AppState.ANALYZING) {
       interval = window.setInterval(async () => {
         try {
-          const { status, proposals, error } = await checkAnalysisStatus();
+          const { status, proposals, unassignedTabIds, withheldTabIds, ruleTabIds, validation, progress, error } = await checkAnalysisStatus();
+          setProgress(progress || null);
           if (status === 'success' && proposals) {
-            setProposals(proposals);
-            setAppState(AppState.REVIEW);
-            const candidates = detectCleanupCandidates(tabs);
-            setCleanupCandidates(candidates);
-            setSelectedCleanupIds(new Set(candidates.map(c => c.tabId)));
+            showGroupingResult(
+              { proposals, unassignedTabIds: unassignedTabIds || [], withheldTabIds, ruleTabIds },
+              tabs,
+              validation ? describeValidation(validation) : []
+            );
             await resetAnalysisStatus();
           } else if (status === 'error') {
-            setErrorMsg(error || 'Analysis failed.');
-            setAppState(AppState.ERROR);
             await resetAnalysisStatus();
+            await handleAiFailure(error || 'Analysis failed.');
           }
         } catch (e) {
           // Silent fallback
@@ -73,49 +134,196 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [appState]);
 
-  const loadTabs = async () => {
+  // Settings may not be loaded yet on the first render
+  const tabScope = async (): Promise<WindowScope> => (settings ?? await loadSettings()).windows.scope;
+
+  const loadTabs = async (scope?: WindowScope) => {
     try {
-      const currentTabs = await getOpenTabs();
+      const windowScope = scope ?? await tabScope();
+      const [currentTabs, currentGroups, history] = await Promise.all([
+        getOpenTabs(windowScope),
+        getExistingGroups(windowScope),
+        getUndoHistory(),
+      ]);
       setTabs(currentTabs);
+      setExistingGroups(currentGroups);
+      setUndoHistory(history);
     } catch (e) {
       console.error(e);
       setErrorMsg("Failed to load tabs.");
     }
   };
 
+  // Colors are settled here so every grouping path gets the remembered ones
+  const showGroupingResult = async (
+    result: CategorizationResult,
+    currentTabs: Tab[],
+    notes: string[],
+    cleanup: CleanupSettings | undefined = settings?.cleanup
+  ) => {
+    const [registry, currentStrategy] = await Promise.all([loadColorRegistry(), getGroupingStrategy()]);
+    setProposals(withReviewIds(applyColorRegistry(result.proposals, registry, currentStrategy)));
+    setUnassignedTabIds(result.unassignedTabIds);
+    setWithheldTabIds(result.withheldTabIds || []);
+    setRuleTabIds(new Set(result.ruleTabIds || []));
+    setEngineAssignments(proposedAssignments(result.proposals));
+    setReviewNotes(notes);
+    setAppState(AppState.REVIEW);
+    const candidates = detectCleanupCandidates(currentTabs, cleanup);
+    setCleanupCandidates(candidates);
+    setCleanupActions(defaultCleanupActions(candidates));
+  };
+
+  // Results of a scheduled run that asked for confirmation. Tabs may have been
+  // closed since the run, so drop any that are gone; a review with nothing left is dropped.
+  const showPendingReview = (review: PendingReview, currentTabs: Tab[], cleanup: CleanupSettings | undefined = settings?.cleanup) => {
+    const live = new Set(currentTabs.map(t => t.id));
+    setTabs(currentTabs);
+    setReviewOrigin(`From a scheduled ${review.task} ${formatAgo(review.createdAt)}.`);
+
+    if (review.task === 'cleanup') {
+      const candidates = review.cleanupCandidates.filter(c => live.has(c.tabId));
+      if (!hasClosableCandidates(candidates)) {
+        clearPendingReview();
+        return;
+      }
+      setCleanupOnly(true);
+      setCleanupCandidates(candidates);
+      setCleanupActions(defaultCleanupActions(candidates));
+      setAppState(AppState.REVIEW);
+      return;
+    }
+
+    const proposals = review.proposals
+      .map(p => ({ ...p, tabIds: p.tabIds.filter(id => live.has(id)) }))
+      .filter(p => p.tabIds.length > 0);
+    if (!proposals.length) {
+      clearPendingReview();
+      return;
+    }
+    showGroupingResult(
+      {
+        proposals,
+        unassignedTabIds: review.unassignedTabIds.filter(id => live.has(id)),
+        withheldTabIds: review.withheldTabIds.filter(id => live.has(id)),
+        ruleTabIds: review.ruleTabIds,
+      },
+      currentTabs,
+      [],
+      cleanup
+    );
+  };
+
+  const modeOf = (group: ExistingGroup, prefs = groupPrefs): ExistingGroupMode =>
+    groupMode(prefs, group, settings!.incrementalOrganize);
+
+  // Merge-target groups are fixed targets and locked groups are left out entirely;
+  // only tabs outside both (including those of dissolved groups) are sorted.
+  // User rules then claim their tabs; only the rest goes to the grouping engine.
+  const getGroupingTargets = async (currentTabs: Tab[]) => {
+    const [groups, prefs] = await Promise.all([getExistingGroups(settings!.windows.scope), loadGroupPrefs()]);
+    setExistingGroups(groups);
+    setGroupPrefs(prefs);
+    const targetGroups = groups.filter(g => modeOf(g, prefs) === 'merge');
+    const keptIds = new Set(groups.filter(g => modeOf(g, prefs) !== 'dissolve').flatMap(g => g.tabIds));
+    const ungrouped = currentTabs.filter(t => !keptIds.has(t.id));
+    const { proposals: ruleProposals, remaining } = applyGroupingRules(ungrouped, settings!.rules, targetGroups);
+    return { targetGroups, ungrouped, ruleProposals, tabsToSort: remaining };
+  };
+
+  // Offline grouping, used for "Local only" and as a fallback when the AI request fails
+  const runLocalGrouping = async (notes: string[] = []) => {
+    const currentTabs = await getOpenTabs(settings!.windows.scope);
+    setTabs(currentTabs);
+    const { targetGroups, ruleProposals, tabsToSort } = await getGroupingTargets(currentTabs);
+    const result = mergeRuleProposals(ruleProposals, groupTabsLocally(tabsToSort, targetGroups, currentTabs));
+    showGroupingResult(result, currentTabs, notes);
+  };
+
+  const handleAiFailure = async (message: string) => {
+    if (settings?.localFallback) {
+      try {
+        await runLocalGrouping([`AI request failed (${message}). Grouped locally instead.`]);
+        return;
+      } catch (err) {
+        console.error('[TabOrganizer] Local fallback failed:', err);
+      }
+    }
+    setErrorMsg(message);
+    setAppState(AppState.ERROR);
+  };
+
   const handleAnalyze = async () => {
     setAppState(AppState.ANALYZING);
     setErrorMsg('');
+    setProgress(null);
     await resetAnalysisStatus(); // clear any previous state
+
+    let targets: Awaited<ReturnType<typeof getGroupingTargets>>;
     try {
-      const groups = await categorizeTabs(tabs, settings!);
+      targets = await getGroupingTargets(tabs);
+      if (targets.ungrouped.length === 0) {
+        throw new Error('All tabs are already in groups. Nothing new to organize.');
+      }
+    } catch (error) {
+      setErrorMsg(error instanceof Error ? error.message : "Failed to analyze tabs.");
+      setAppState(AppState.ERROR);
+      return;
+    }
+
+    if (settings!.groupingEngine === 'local') {
+      const local = groupTabsLocally(targets.tabsToSort, targets.targetGroups, tabs);
+      showGroupingResult(mergeRuleProposals(targets.ruleProposals, local), tabs, []);
+      return;
+    }
+
+    try {
+      const result = await categorizeTabs(targets.tabsToSort, settings!, targets.targetGroups, targets.ruleProposals);
       // If we got direct groups (fallback web mode), use them directly
-      if (groups && groups.length > 0) {
-        setProposals(groups);
-        setAppState(AppState.REVIEW);
-        const candidates = detectCleanupCandidates(tabs);
-        setCleanupCandidates(candidates);
-        setSelectedCleanupIds(new Set(candidates.map(c => c.tabId)));
+      if (result.proposals.length > 0 || result.unassignedTabIds.length > 0 || result.withheldTabIds?.length) {
+        showGroupingResult(result, tabs, result.validation ? describeValidation(result.validation) : []);
       }
       // Otherwise, the interval will poll for the background result
     } catch (error) {
       console.error(error);
-      setErrorMsg(error instanceof Error ? error.message : "Failed to analyze tabs.");
-      setAppState(AppState.ERROR);
+      await handleAiFailure(error instanceof Error ? error.message : "Failed to analyze tabs.");
     }
   };
 
+  const resetReview = () => {
+    setCleanupOnly(false);
+    setCleanupCandidates([]);
+    setCleanupActions(new Map());
+    setCleanupSummary(null);
+    setProposals([]);
+    setUnassignedTabIds([]);
+    setWithheldTabIds([]);
+    setReviewNotes([]);
+    setReviewOrigin(null);
+  };
+
   const handleApply = async () => {
     setAppState(AppState.APPLYING);
     try {
-      const tabIdsToClose = [...selectedCleanupIds];
-      await applyCleanup(tabIdsToClose, cleanupOnly ? [] : proposals);
+      const tabIdsToClose = tabIdsWithAction(cleanupActions, 'close');
+      const tabIdsToDiscard = tabIdsWithAction(cleanupActions, 'discard');
+      const closeReasons = Object.fromEntries(cleanupCandidates.map(c => [c.tabId, c.reason]));
+      // Groups emptied or created without tabs in review are skipped
+      const groups = cleanupOnly ? [] : proposals.filter(g => g.tabIds.length > 0);
+      const dissolveGroupIds = cleanupOnly ? [] : existingGroups.filter(g => modeOf(g) === 'dissolve').map(g => g.id);
+      const discarded = await applyCleanup(tabIdsToClose, groups, tabIdsToDiscard, closeReasons, settings!.windows, dissolveGroupIds);
+      if (reviewOrigin) clearPendingReview();
+      if (!cleanupOnly && settings!.prompt.learnFromEdits) {
+        const remaining = tabs.filter(t => !tabIdsToClose.includes(t.id));
+        recordReviewEdits(engineAssignments, groups, remaining, settings!.privacy)
+          .catch(err => console.warn('[TabOrganizer] Failed to record review edits:', err));
+      }
+      setCleanupSummary({ closed: tabIdsToClose.length, discarded });
+      setCanUndoLast(true);
       setAppState(AppState.SUCCESS);
-      setTimeout(() => {
-        setCleanupOnly(false);
-        setCleanupCandidates([]);
-        setSelectedCleanupIds(new Set());
-        setProposals([]);
+      successTimer.current = window.setTimeout(() => {
+        resetReview();
+        setCanUndoLast(false);
         setAppState(AppState.IDLE);
         loadTabs();
       }, 2500);
@@ -126,13 +334,163 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRemoveTabFromGroup = (tabId: number, groupName: string) => {
-    setProposals(prev => prev.map(group => {
-      if (group.groupName === groupName) {
-        return { ...group, tabIds: group.tabIds.filter(id => id !== tabId) };
-      }
-      return group;
-    }));
+  // Only a scheduled run's review has an origin; it stays pending until applied or cancelled
+  const handleCancelReview = () => {
+    if (reviewOrigin) clearPendingReview();
+    resetReview();
+    setAppState(AppState.IDLE);
+  };
+
+  const handleUndo = async (snapshotId?: string) => {
+    window.clearTimeout(successTimer.current);
+    setIsUndoing(true);
+    setAppState(AppState.APPLYING);
+    try {
+      await undoOperation(snapshotId);
+      resetReview();
+      setCanUndoLast(false);
+      setAppState(AppState.IDLE);
+      loadTabs();
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Failed to undo.');
+      setAppState(AppState.ERROR);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  // Switching tabs takes focus away from the popup, which closes it
+  const handleFocusGroup = async (group: ExistingGroup) => {
+    try {
+      await focusGroup(group.id);
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Failed to focus group.');
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  const handleMergeWindows = async () => {
+    setAppState(AppState.APPLYING);
+    try {
+      await mergeAllWindows();
+      setAppState(AppState.IDLE);
+      loadTabs();
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Failed to merge windows.');
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Saved for the next runs, and applied to the current review right away
+  const handleChangeGroupMode = async (group: ExistingGroup, mode: ExistingGroupMode) => {
+    const previous = modeOf(group);
+    if (mode === previous) return;
+    await updateGroupPrefs(group, { mode }, existingGroups);
+    setGroupPrefs(await loadGroupPrefs());
+
+    const target = proposals.find(p => p.existingGroupId === group.id);
+    if (target && mode !== 'merge') {
+      setProposals(prev => deleteGroup(prev, target.id));
+      ungroupTabs(target.tabIds);
+    }
+    if (mode === 'merge') setProposals(prev => addExistingGroup(prev, group));
+    if (mode === 'dissolve') {
+      // Its tabs weren't sorted, so they wait in the ungrouped pool for placement
+      ungroupTabs(group.tabIds);
+    } else if (previous === 'dissolve') {
+      // Its tabs were sorted with the rest; they now stay where they are
+      setProposals(prev => removeTabs(prev, group.tabIds));
+      setUnassignedTabIds(prev => prev.filter(id => !group.tabIds.includes(id)));
+      setWithheldTabIds(prev => prev.filter(id => !group.tabIds.includes(id)));
+    }
+  };
+
+  // Tabs taken out of a group land in the ungrouped pool and stay where they are
+  const ungroupTabs = (tabIds: number[]) => {
+    setUnassignedTabIds(prev => [...prev.filter(id => !tabIds.includes(id)), ...tabIds]);
+    setWithheldTabIds(prev => prev.filter(id => !tabIds.includes(id)));
+  };
+
+  const handleRemoveTabFromGroup = (tabId: number) => {
+    setProposals(prev => removeTab(prev, tabId));
+    ungroupTabs([tabId]);
+  };
+
+  // Drag and drop, and manual placement of an unsorted or withheld tab
+  const handleMoveTab = (tabId: number, groupId: string) => {
+    setProposals(prev => moveTab(prev, tabId, groupId));
+    setUnassignedTabIds(prev => prev.filter(id => id !== tabId));
+    setWithheldTabIds(prev => prev.filter(id => id !== tabId));
+  };
+
+  const handleRenameGroup = (groupId: string, groupName: string) => {
+    setProposals(prev => updateGroup(prev, groupId, { groupName }));
+  };
+
+  // Remembered for this name once the groups are applied
+  const handleChangeGroupColor = (groupId: string, color: TabGroupColor) => {
+    setProposals(prev => updateGroup(prev, groupId, { color }));
+  };
+
+  const handleMergeGroups = (sourceId: string, targetId: string) => {
+    setProposals(prev => mergeGroups(prev, sourceId, targetId));
+  };
+
+  const handleSplitGroup = (groupId: string, tabIds: number[]) => {
+    setProposals(prev => splitGroup(prev, groupId, tabIds, paletteFor(strategy)));
+  };
+
+  const handleDeleteGroup = (groupId: string) => {
+    const group = proposals.find(g => g.id === groupId);
+    setProposals(prev => deleteGroup(prev, groupId));
+    if (group) ungroupTabs(group.tabIds);
+  };
+
+  const handleSaveProposalBookmarks = async () => {
+    try {
+      const { groups } = sessionFromProposals(proposals, tabs);
+      const created = await saveGroupsAsBookmarks(groups, settings!.bookmarks.parentFolderId);
+      setReviewNotes(prev => [...prev, `Saved ${created} bookmark${created !== 1 ? 's' : ''} in ${groups.length} folder${groups.length !== 1 ? 's' : ''}.`]);
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Failed to save bookmarks.');
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Withheld tabs never reach the AI, but the offline rules can still group them
+  const handleGroupWithheldLocally = () => {
+    const withheld = tabs.filter(t => withheldTabIds.includes(t.id));
+    const result = groupTabsLocally(withheld, [], tabs);
+    setProposals(prev => [...prev, ...withReviewIds(result.proposals)]);
+    setUnassignedTabIds(prev => [...prev, ...result.unassignedTabIds]);
+    setWithheldTabIds([]);
+  };
+
+  const openStash = async () => {
+    setAppState(AppState.STASH);
+    await loadTabs();
+    setStash(await loadStash());
+    setGroupPrefs(await loadGroupPrefs());
+  };
+
+  // Wraps stash actions so the list refreshes (and tabs reload) after each one
+  const runStashAction = async (action: () => Promise<unknown>) => {
+    setStashBusy(true);
+    try {
+      await action();
+      await loadTabs();
+      setStash(await loadStash());
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Stash operation failed.');
+      setAppState(AppState.ERROR);
+    } finally {
+      setStashBusy(false);
+    }
   };
 
   const handleSaveSettings = async (newSettings: Settings) => {
@@ -140,6 +498,7 @@ const App: React.FC = () => {
       await saveSettings(newSettings);
       setSettings(newSettings);
       setAppState(AppState.IDLE);
+      if (newSettings.windows.scope !== settings?.windows.scope) loadTabs(newSettings.windows.scope);
     } catch (error) {
       console.error(error);
       setErrorMsg("Failed to save settings.");
@@ -147,10 +506,17 @@ const App: React.FC = () => {
     }
   };
 
-  const handleToggleCleanup = (tabId: number, selected: boolean) => {
-    setSelectedCleanupIds(prev => {
-      const next = new Set(prev);
-      if (selected) next.add(tabId); else next.delete(tabId);
+  const handleSetCleanupAction = (tabId: number, action: CleanupAction) => {
+    setCleanupActions(prev => new Map(prev).set(tabId, action));
+  };
+
+  // Stale tabs are usually worth keeping around, just not in memory
+  const handleDiscardAllStale = () => {
+    setCleanupActions(prev => {
+      const next = new Map(prev);
+      for (const c of cleanupCandidates) {
+        if (c.reason === 'stale' && !c.protectedBy) next.set(c.tabId, 'discard');
+      }
       return next;
     });
   };
@@ -160,12 +526,12 @@ const App: React.FC = () => {
     setAppState(AppState.ANALYZING);
     setErrorMsg('');
     try {
-      const currentTabs = await getOpenTabs();
+      const currentTabs = await getOpenTabs(settings!.windows.scope);
       setTabs(currentTabs);
-      const candidates = detectCleanupCandidates(currentTabs);
+      const candidates = detectCleanupCandidates(currentTabs, settings?.cleanup);
       setCleanupCandidates(candidates);
-      setSelectedCleanupIds(new Set(candidates.map(c => c.tabId)));
-      if (candidates.length === 0) {
+      setCleanupActions(defaultCleanupActions(candidates));
+      if (!hasClosableCandidates(candidates)) {
         setAppState(AppState.SUCCESS);
         setTimeout(() => {
           setCleanupOnly(false);
@@ -181,6 +547,30 @@ const App: React.FC = () => {
     }
   };
 
+  const refreshGraveyard = async () => {
+    const { graveyard: limits } = settings ?? await loadSettings();
+    setGraveyard(await loadGraveyard(limits));
+  };
+
+  const openGraveyard = async () => {
+    setAppState(AppState.GRAVEYARD);
+    await refreshGraveyard();
+  };
+
+  const runGraveyardAction = async (action: () => Promise<unknown>) => {
+    setGraveyardBusy(true);
+    try {
+      await action();
+      await refreshGraveyard();
+    } catch (error) {
+      console.error(error);
+      setErrorMsg(error instanceof Error ? error.message : 'Could not update closed tabs.');
+      setAppState(AppState.ERROR);
+    } finally {
+      setGraveyardBusy(false);
+    }
+  };
+
   // --- Render Views ---
 
   const renderHeader = () => (
@@ -192,6 +582,20 @@ const App: React.FC = () => {
         <h1 className="font-bold text-lg leading-tight text-white">EspressoBot Tab Organizer</h1>
         <p className="text-xs text-slate-400">Powered by AI</p>
       </div>
+      <button
+        onClick={openGraveyard}
+        className="text-slate-400 hover:text-white transition-colors p-1"
+        aria-label="Recently closed"
+      >
+        <History size={18} />
+      </button>
+      <button
+        onClick={openStash}
+        className="text-slate-400 hover:text-white transition-colors p-1"
+        aria-label="Stash"
+      >
+        <Archive size={18} />
+      </button>
       <button
         onClick={() => setAppState(AppState.SETTINGS)}
         className="text-slate-400 hover:text-white transition-colors p-1"
@@ -202,6 +606,12 @@ const App: React.FC = () => {
     </div>
   );
 
+  // Empty unless the loaded tabs span more than one window
+  const tabWindowLabels = windowLabels(tabs);
+  const windowCount = tabWindowLabels.size;
+  const mergeTargetCount = settings ? existingGroups.filter(g => modeOf(g) === 'merge').length : 0;
+  const lockedCount = settings ? existingGroups.filter(g => modeOf(g) === 'lock').length : 0;
+
   const renderIdle = () => (
     <div className="flex flex-col h-full p-6 text-center justify-center items-center space-y-6">
       <div className="bg-slate-800 p-4 rounded-full mb-2">
@@ -210,9 +620,20 @@ const App: React.FC = () => {
       <div>
         <h2 className="text-xl font-bold mb-2">Organize your Tabs</h2>
         <p className="text-slate-400 text-sm">
-          You have <span className="text-white font-bold">{tabs.length}</span> tabs open.
+          You have <span className="text-white font-bold">{tabs.length}</span> tabs open
+          {windowCount > 1 && <> across <span className="text-white font-bold">{windowCount}</span> windows</>}.
           Let AI analyze and stack them for you.
         </p>
+        {mergeTargetCount > 0 && (
+          <p className="text-slate-500 text-xs mt-1">
+            New tabs will be added to your {mergeTargetCount} existing group{mergeTargetCount !== 1 ? 's' : ''} where they fit.
+          </p>
+        )}
+        {lockedCount > 0 && (
+          <p className="text-slate-500 text-xs mt-1">
+            {lockedCount} locked group{lockedCount !== 1 ? 's' : ''} will be left untouched.
+          </p>
+        )}
       </div>
 
       <div className="w-full max-h-[200px] overflow-y-auto bg-slate-800/50 rounded-lg p-2 text-left border border-slate-700">
@@ -223,13 +644,13 @@ const App: React.FC = () => {
         ))}
       </div>
 
-      {settings && !settings.apiKey && (
+      {settings && settings.groupingEngine === 'ai' && !isProviderConfigured(settings) && (
         <div className="w-full text-xs text-blue-400 bg-blue-900/20 border border-blue-800 rounded-lg p-2 text-center">
           No API key configured.{' '}
           <button onClick={() => setAppState(AppState.SETTINGS)} className="underline hover:text-blue-300">
             Open settings
           </button>{' '}
-          to get started.
+          to get started, or switch to local grouping.
         </div>
       )}
 
@@ -241,7 +662,7 @@ const App: React.FC = () => {
 
       <button
         onClick={handleAnalyze}
-        disabled={strategy === null || strategy === 'unsupported' || !settings?.apiKey}
+        disabled={strategy === null || strategy === 'unsupported' || !settings || (settings.groupingEngine === 'ai' && !isProviderConfigured(settings))}
         className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-all shadow-lg shadow-blue-900/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <BrainCircuit size={18} />
@@ -254,29 +675,75 @@ const App: React.FC = () => {
         <Trash2 size={16} />
         Quick Cleanup
       </button>
+      {settings?.windows.scope === 'all' && windowCount > 1 && (
+        <button
+          onClick={handleMergeWindows}
+          className="w-full py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg font-medium transition-all border border-slate-600 flex items-center justify-center gap-2 text-sm"
+        >
+          <AppWindow size={16} />
+          Merge Windows
+        </button>
+      )}
+
+      {undoHistory.length > 0 && (
+        <div className="w-full space-y-1">
+          {undoHistory.slice(0, 3).map(entry => (
+            <div key={entry.id} className="flex items-center gap-2 text-xs text-slate-500">
+              <span className="flex-1 truncate text-left">{entry.label} · {formatAgo(entry.createdAt)}</span>
+              <button
+                onClick={() => handleUndo(entry.id)}
+                className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+              >
+                <Undo2 size={12} />
+                Undo
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 
   const renderLoading = () => (
     <div className="flex flex-col h-full justify-center items-center p-8 text-center space-y-4">
       <Loader2 size={48} className="animate-spin text-blue-500" />
-      <h3 className="text-lg font-medium">{cleanupOnly ? 'Scanning Tabs...' : 'Analyzing Context...'}</h3>
+      <h3 className="text-lg font-medium">{isUndoing ? 'Restoring Tabs...' : cleanupOnly ? 'Scanning Tabs...' : 'Analyzing Context...'}</h3>
       <p className="text-sm text-slate-400">
-        {cleanupOnly
+        {isUndoing
+          ? 'Reopening closed tabs and restoring your previous groups.'
+          : cleanupOnly
           ? 'Checking for stale and duplicate tabs.'
-          : 'AI is analyzing your tab titles and URLs to find patterns.'}
+          : settings?.groupingEngine === 'local'
+            ? 'Grouping tabs by site and title.'
+            : 'AI is analyzing your tab titles and URLs to find patterns.'}
       </p>
+      {appState === AppState.ANALYZING && !cleanupOnly && progress && progress.totalBatches > 1 && (
+        <div className="w-full max-w-[200px] space-y-1">
+          <p className="text-xs text-slate-400">Batch {progress.batch} of {progress.totalBatches}</p>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${((progress.batch - 1) / progress.totalBatches) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 
   const renderReview = () => {
-    const cleanupCount = selectedCleanupIds.size;
+    const closeCount = tabIdsWithAction(cleanupActions, 'close').length;
+    const discardCount = tabIdsWithAction(cleanupActions, 'discard').length;
+    const cleanupCount = closeCount + discardCount;
     const applyLabel = (() => {
       const hasGroups = !cleanupOnly && proposals.length > 0;
-      const hasCleanup = cleanupCount > 0;
-      if (hasGroups && hasCleanup) return `Apply Groups & Close ${cleanupCount} Tab${cleanupCount !== 1 ? 's' : ''}`;
-      if (hasCleanup) return `Close ${cleanupCount} Tab${cleanupCount !== 1 ? 's' : ''}`;
-      return 'Apply Stacks';
+      if (cleanupCount === 0) return 'Apply Stacks';
+      const verbs = [
+        ...(closeCount > 0 ? [`Close ${closeCount}`] : []),
+        ...(discardCount > 0 ? [`Discard ${discardCount}`] : []),
+      ].join(' & ');
+      const cleanupLabel = `${verbs} Tab${cleanupCount !== 1 ? 's' : ''}`;
+      return hasGroups ? `Apply Groups & ${cleanupLabel}` : cleanupLabel;
     })();
 
     const reviewTabs = [
@@ -287,30 +754,80 @@ const App: React.FC = () => {
     const panes = [
       ...(!cleanupOnly ? [(
         <div className="p-4">
-          {proposals.map((group, idx) => (
+          {reviewNotes.length > 0 && (
+            <div className="mb-3 text-xs text-amber-400 bg-amber-900/20 border border-amber-800 rounded-lg p-2 space-y-0.5">
+              {reviewNotes.map(note => <p key={note}>{note}</p>)}
+            </div>
+          )}
+          {proposals.map(group => (
             <GroupPreview
-              key={`${group.groupName}-${idx}`}
+              key={group.id}
               proposal={group}
               allTabs={tabs}
+              otherGroups={proposals.filter(g => g.id !== group.id)}
               onRemoveTab={handleRemoveTabFromGroup}
-              showColors={strategy === 'chrome-groups' || strategy === null}
+              onMoveTab={handleMoveTab}
+              onRename={handleRenameGroup}
+              onMerge={handleMergeGroups}
+              onSplit={handleSplitGroup}
+              onDelete={handleDeleteGroup}
+              ruleTabIds={ruleTabIds}
+              palette={paletteFor(strategy)}
+              onChangeColor={handleChangeGroupColor}
+              showColors={strategy !== 'unsupported'}
+              windowLabels={tabWindowLabels}
             />
           ))}
+          <button
+            onClick={() => setProposals(prev => createGroup(prev, paletteFor(strategy)))}
+            className="mb-3 w-full py-2 rounded-lg border border-dashed border-slate-600 text-xs text-slate-400 hover:text-white hover:border-slate-400 flex items-center justify-center gap-1"
+          >
+            <FolderPlus size={14} />
+            New group
+          </button>
+          <UnsortedTabs
+            label="Withheld from AI"
+            hint="matched your privacy filter"
+            tabIds={withheldTabIds}
+            allTabs={tabs}
+            groups={proposals}
+            onAssign={handleMoveTab}
+            onGroupLocally={handleGroupWithheldLocally}
+            windowLabels={tabWindowLabels}
+          />
+          <UnsortedTabs
+            label="Ungrouped"
+            hint="left where they are"
+            tabIds={unassignedTabIds}
+            allTabs={tabs}
+            groups={proposals}
+            onAssign={handleMoveTab}
+            onDropTab={handleRemoveTabFromGroup}
+            windowLabels={tabWindowLabels}
+          />
+          <ExistingGroups
+            groups={existingGroups}
+            modeOf={(group) => modeOf(group)}
+            isUserMade={(group) => isUserMade(groupPrefs, group)}
+            onChangeMode={handleChangeGroupMode}
+            showColors={strategy !== 'unsupported'}
+          />
         </div>
       )] : []),
       ...(cleanupCandidates.length > 0 ? [(
         <CleanupList
           candidates={cleanupCandidates}
           allTabs={tabs}
-          onToggle={handleToggleCleanup}
-          selectedIds={selectedCleanupIds}
+          actions={cleanupActions}
+          onSetAction={handleSetCleanupAction}
+          onDiscardAllStale={handleDiscardAllStale}
         />
       )] : []),
     ];
 
     // Invariant: panes[0] is always defined here.
     // cleanupOnly=false always produces a groups pane; cleanupOnly=true only
-    // reaches REVIEW when candidates.length > 0 (handleQuickCleanup guards this).
+    // reaches REVIEW when some candidate is closable (handleQuickCleanup guards this).
     const content = reviewTabs.length > 1
       ? <ReviewTabs tabs={reviewTabs}>{panes}</ReviewTabs>
       : <div className="flex-1 overflow-y-auto custom-scrollbar">{panes[0]}</div>;
@@ -318,10 +835,18 @@ const App: React.FC = () => {
     return (
       <div className="flex flex-col h-full">
         <div className="p-4 bg-slate-800/30 border-b border-slate-700">
-          <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider mb-1">
-            {cleanupOnly ? 'Quick Cleanup' : 'Proposed Stacks'}
-          </h2>
-          <p className="text-xs text-slate-500">Review changes before applying.</p>
+          <div className="flex items-center justify-between mb-1">
+            <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+              {cleanupOnly ? 'Quick Cleanup' : 'Proposed Stacks'}
+            </h2>
+            {!cleanupOnly && proposals.length > 0 && (
+              <ExportMenu
+                onExport={(format) => exportSession(sessionFromProposals(proposals, tabs), format)}
+                onSaveBookmarks={handleSaveProposalBookmarks}
+              />
+            )}
+          </div>
+          <p className="text-xs text-slate-500">{reviewOrigin ? `${reviewOrigin} ` : ''}Review changes before applying.</p>
         </div>
 
         <div className="flex-1 overflow-hidden">
@@ -330,7 +855,7 @@ const App: React.FC = () => {
 
         <div className="p-4 border-t border-slate-700 bg-slate-800 flex gap-3">
           <button
-            onClick={() => { setAppState(AppState.IDLE); setCleanupOnly(false); setCleanupCandidates([]); setSelectedCleanupIds(new Set()); }}
+            onClick={handleCancelReview}
             className="flex-1 py-2 px-4 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors text-sm font-medium"
           >
             Cancel
@@ -351,8 +876,19 @@ const App: React.FC = () => {
       <CheckCircle size={64} className="text-green-500" />
       <h3 className="text-xl font-bold">Tabs Organized!</h3>
       <p className="text-sm text-slate-400">
-        {cleanupOnly ? 'Stale and duplicate tabs closed.' : 'Your workspace has been tidied up.'}
+        {cleanupSummary && (cleanupSummary.closed > 0 || cleanupSummary.discarded > 0)
+          ? describeCleanup(cleanupSummary)
+          : cleanupOnly ? 'Stale and duplicate tabs closed.' : 'Your workspace has been tidied up.'}
       </p>
+      {canUndoLast && (
+        <button
+          onClick={() => handleUndo()}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white text-sm flex items-center gap-2"
+        >
+          <Undo2 size={16} />
+          Undo
+        </button>
+      )}
     </div>
   );
 
@@ -388,6 +924,41 @@ const App: React.FC = () => {
             onBack={() => setAppState(AppState.IDLE)}
           />
         )}
+        {appState === AppState.STASH && (
+          <StashList
+            groups={existingGroups}
+            stickyGroups={new Set(existingGroups.filter(g => isSticky(groupPrefs, g)).map(g => g.id))}
+            showSticky={!!settings?.autoAssign.enabled}
+            stash={stash}
+            busy={stashBusy}
+            onStash={(group) => runStashAction(() => stashGroup(group, tabs))}
+            onToggleSticky={async (group, sticky) => {
+              await updateGroupPrefs(group, { sticky }, existingGroups);
+              setGroupPrefs(await loadGroupPrefs());
+            }}
+            onFocus={handleFocusGroup}
+            onBookmark={(group) => runStashAction(() =>
+              saveGroupsAsBookmarks(sessionFromWindow([group], tabs).groups, settings!.bookmarks.parentFolderId)
+            )}
+            onOpenBookmarks={(folder) => runStashAction(() => openFolderAsGroup(folder.id))}
+            onRestore={(id) => runStashAction(() => restoreStashedGroup(id))}
+            onRename={(id, name) => runStashAction(() => renameStashedGroup(id, name))}
+            onDelete={(id) => runStashAction(() => deleteStashedGroup(id))}
+            onExportWindow={(format) => exportSession(sessionFromWindow(existingGroups, tabs), format)}
+            onImport={(file) => runStashAction(async () => importSession(parseSessionFile(await file.text(), file.name)))}
+            onBack={() => setAppState(AppState.IDLE)}
+          />
+        )}
+        {appState === AppState.GRAVEYARD && (
+          <GraveyardList
+            entries={graveyard}
+            busy={graveyardBusy}
+            onReopen={(ids) => runGraveyardAction(() => reopenGraveyardEntries(ids))}
+            onDelete={(ids) => runGraveyardAction(() => deleteGraveyardEntries(ids))}
+            onClear={() => runGraveyardAction(clearGraveyard)}
+            onBack={() => setAppState(AppState.IDLE)}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,1397 @@
+import { groupTabsWithAI } from './services/aiService';
+import { isProviderConfigured } from './services/providerService';
+import { loadColorRegistry, applyColorRegistry, recordGroupColors } from './services/colorService';
+import { GROUP_COLORS } from './services/groupColors';
+import { addGraveyardEntries } from './services/graveyardService';
+import { loadSettings, onSettingsSaved } from './services/settingsService';
+import { readStored, writeStored, removeStored } from './services/storageService';
+import { parseUrl } from './services/urlPatterns';
+import { matchRule, applyGroupingRules, mergeRuleProposals } from './services/rulesService';
+import { groupTabsLocally } from './services/heuristicService';
+import { detectCleanupCandidates, defaultCleanupActions, tabIdsWithAction } from './services/cleanupService';
+import { applyPrivacyFilter } from './services/privacyService';
+import { groupPrefKey, loadGroupPrefs, groupMode, isSticky, markGroupsCreated } from './services/groupPrefsService';
+import {
+  Tab, TabGroupProposal, TabGroupColor, ExistingGroup, GroupingStrategy, GroupingValidation,
+  CategorizationProgress, CategorizationResult, Settings, Schedule, PendingReview, OrderSettings,
+  GroupOrder, TabOrder, WindowScope, WindowPlacement, ClosedTabReason, GraveyardEntry, UndoEntry,
+} from './types';
+
+declare var chrome: any;
+
+// Service worker for handling tab grouping operations
+// This persists longer than the popup context
+
+// The chrome.tabs.Tab fields the worker reads; vivExtData only exists in Vivaldi
+interface BrowserTab {
+  id: number;
+  windowId: number;
+  index: number;
+  title?: string;
+  url?: string;
+  pendingUrl?: string;
+  favIconUrl?: string;
+  lastAccessed?: number;
+  audible?: boolean;
+  active?: boolean;
+  pinned?: boolean;
+  groupId?: number;  // -1 when ungrouped
+  vivExtData?: string;
+}
+
+// 'current' = the last focused window, 'all' = every normal window, or a window id
+type TabScope = WindowScope | number;
+
+let groupingStrategy: GroupingStrategy | null = null;
+let detectionPromise: Promise<void> | null = null;
+
+let analysisStatus: 'idle' | 'analyzing' | 'success' | 'error' = 'idle';
+let analysisProposals: TabGroupProposal[] = [];
+let analysisUnassigned: number[] = [];   // tab IDs the model never placed, shown as "Unsorted"
+let analysisWithheld: number[] = [];     // tab IDs the popup's privacy filter kept out of the payload
+let analysisRuleTabIds: number[] = [];   // tab IDs pre-assigned by user rules
+let analysisValidation: GroupingValidation | null = null;
+let analysisProgress: CategorizationProgress | null = null;  // set while a batched run is in flight
+let analysisError = '';
+
+async function detectStrategy(): Promise<void> {
+  // Vivaldi check FIRST: Vivaldi is Chromium-based so chrome.tabs.group exists,
+  // but we need to use Vivaldi's native tab stacking instead
+  try {
+    const tabs = await chrome.tabs.query({ currentWindow: true });
+    if (tabs.length > 0 && 'splitViewId' in tabs[0]) {
+      groupingStrategy = 'vivaldi-stacks';
+      console.log('[TabOrganizer BG] Detected strategy:', groupingStrategy);
+      return;
+    }
+  } catch {
+    // Fall through to Chrome/Edge check
+  }
+
+  // Chrome/Edge: chrome.tabs.group() function exists
+  if (typeof chrome.tabs.group === 'function') {
+    groupingStrategy = 'chrome-groups';
+    console.log('[TabOrganizer BG] Detected strategy:', groupingStrategy);
+    return;
+  }
+
+  groupingStrategy = 'unsupported';
+  console.log('[TabOrganizer BG] Detected strategy:', groupingStrategy);
+}
+
+detectionPromise = detectStrategy();
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action === 'getStrategy') {
+    (async () => {
+      if (!groupingStrategy) await detectionPromise;
+      sendResponse({ success: true, strategy: groupingStrategy });
+    })();
+    return true;
+  }
+
+  if (message.action === 'applyTabGroups') {
+    recordUndoSnapshot(describeOperation(message.groups, []))
+      .then(() => applyTabGroups(message.groups))
+      .then(async () => orderTabs(message.groups, (await loadSettings()).ordering))
+      .then(() => rememberGroupAssignments(message.groups))
+      .then(() => rememberGroupColors(message.groups))
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true; // Keep channel open for async response
+  }
+
+  if (message.action === 'applyCleanup') {
+    const allWindows = message.scope === 'all' || (message.placement && message.placement !== 'in-place');
+    recordUndoSnapshot(describeOperation(message.groups, message.tabIdsToClose, message.tabIdsToDiscard), allWindows)
+      .then(() => applyCleanup(message.tabIdsToClose, message.groups, message.tabIdsToDiscard, message.closeReasons, message.placement, message.dissolveGroupIds))
+      .then((discarded) => sendResponse({ success: true, discarded }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'mergeWindows') {
+    recordUndoSnapshot('Merge windows', true)
+      .then(() => mergeAllWindows())
+      .then((moved) => sendResponse({ success: true, moved }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'focusGroup') {
+    focusGroup(message.groupId)
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'openTabs') {
+    openTabs(message.urls)
+      .then((tabIds) => sendResponse({ success: true, tabIds }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'getUndoHistory') {
+    getUndoHistory()
+      .then((history) => sendResponse({ success: true, history: history.map(summarizeSnapshot) }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'undoOperation') {
+    undoOperation(message.snapshotId)
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'getTabs') {
+    getOpenTabs(message.scope)
+      .then((tabs) => sendResponse({ success: true, tabs }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'getExistingGroups') {
+    getExistingGroups(message.scope)
+      .then((groups) => sendResponse({ success: true, groups }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'startCategorization') {
+    analysisWithheld = message.withheldTabIds || [];
+    analysisRuleTabIds = (message.ruleProposals || []).flatMap(p => p.tabIds);
+    categorizeTabsAI(message.tabs, message.settings, message.existingGroups || [], message.ruleProposals || []);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.action === 'getCategorizationStatus') {
+    sendResponse({
+      status: analysisStatus,
+      proposals: analysisProposals,
+      unassignedTabIds: analysisUnassigned,
+      withheldTabIds: analysisWithheld,
+      ruleTabIds: analysisRuleTabIds,
+      validation: analysisValidation,
+      progress: analysisProgress,
+      error: analysisError
+    });
+    return true;
+  }
+
+  if (message.action === 'getPendingReview') {
+    getPendingReview()
+      .then((review) => sendResponse({ success: true, review }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'clearPendingReview') {
+    clearPendingReview()
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true;
+  }
+
+  if (message.action === 'resetCategorizationStatus') {
+    analysisStatus = 'idle';
+    analysisProposals = [];
+    analysisUnassigned = [];
+    analysisWithheld = [];
+    analysisRuleTabIds = [];
+    analysisValidation = null;
+    analysisProgress = null;
+    analysisError = '';
+    sendResponse({ success: true });
+    return true;
+  }
+});
+
+async function categorizeTabsAI(
+  tabs: Tab[],
+  settings: Settings,
+  existingGroups: ExistingGroup[] = [],
+  ruleProposals: TabGroupProposal[] = []
+) {
+  analysisStatus = 'analyzing';
+  analysisProposals = [];
+  analysisUnassigned = [];
+  analysisValidation = null;
+  analysisProgress = null;
+  analysisError = '';
+
+  try {
+    const result = await groupTabsWithAI(tabs, settings, existingGroups, ruleProposals, (progress) => {
+      analysisProgress = progress;
+    });
+    analysisProposals = result.proposals;
+    analysisUnassigned = result.unassignedTabIds;
+    analysisValidation = result.validation;
+    analysisStatus = 'success';
+  } catch (e) {
+    analysisError = e.message;
+    analysisStatus = 'error';
+  }
+}
+
+function tabQueryFor(scope: TabScope) {
+  if (typeof scope === 'number') return { windowId: scope };
+  return scope === 'all' ? { windowType: 'normal' } : { currentWindow: true };
+}
+
+async function getOpenTabs(scope: TabScope = 'current'): Promise<Tab[]> {
+  const tabs = await chrome.tabs.query({ ...tabQueryFor(scope), pinned: false });
+  return tabs
+    .map((t) => ({
+      id: t.id || 0,
+      windowId: t.windowId,
+      title: t.title || 'Untitled',
+      url: t.url || '',
+      favIconUrl: t.favIconUrl,
+      lastAccessed: t.lastAccessed ?? Date.now(),
+      audible: !!t.audible,
+      active: !!t.active,
+      groupId: tabGroupId(t),
+    }))
+    .filter(t =>
+      t.url &&
+      !t.url.startsWith('chrome://') &&
+      !t.url.startsWith('edge://') &&
+      !t.url.startsWith('vivaldi://') &&
+      !t.url.startsWith('about:') &&
+      !t.url.startsWith('chrome-extension://')
+    );
+}
+
+// Map AI color names to Vivaldi's TabGroupColor enum values
+const VIVALDI_COLOR_MAP: Record<string, string> = {
+  grey: 'Grey', blue: 'Blue', red: 'Red', yellow: 'Yellow',
+  green: 'Green', pink: 'Red', purple: 'Purple', cyan: 'Blue',
+  orange: 'Orange',
+};
+
+// Reverse of VIVALDI_COLOR_MAP, for reading existing stacks back as AI colors
+const VIVALDI_COLOR_REVERSE: Record<string, TabGroupColor> = {
+  Grey: 'grey', Blue: 'blue', Red: 'red', Yellow: 'yellow',
+  Green: 'green', Purple: 'purple', Orange: 'yellow',
+};
+
+// The part of Vivaldi's per-tab JSON that describes its stack; other keys are kept as they are
+interface VivExtData {
+  group?: string;
+  fixedGroupTitle?: string;
+  tabGroupColor?: string;
+  [key: string]: unknown;
+}
+
+function parseVivExtData(tab: BrowserTab): VivExtData {
+  if (!tab.vivExtData) return {};
+  try {
+    return JSON.parse(tab.vivExtData);
+  } catch {
+    return {};
+  }
+}
+
+// Chrome tab group id or Vivaldi stack id, undefined when the tab is ungrouped
+function tabGroupId(tab: BrowserTab): string | undefined {
+  if (typeof tab.groupId === 'number' && tab.groupId !== -1) return String(tab.groupId);
+  return parseVivExtData(tab).group || undefined;
+}
+
+// Read the groups (Chrome) or stacks (Vivaldi) that already exist in the current window, a given one, or all of them
+async function getExistingGroups(scope: TabScope = 'current'): Promise<ExistingGroup[]> {
+  if (!groupingStrategy) await detectionPromise;
+  const tabs = await chrome.tabs.query(tabQueryFor(scope));
+
+  if (groupingStrategy === 'vivaldi-stacks') {
+    const stacks = new Map<string, ExistingGroup>();
+    for (const tab of tabs) {
+      const vivExtData = parseVivExtData(tab);
+      if (!vivExtData.group) continue;
+      if (!stacks.has(vivExtData.group)) {
+        stacks.set(vivExtData.group, {
+          id: vivExtData.group,
+          title: vivExtData.fixedGroupTitle || 'Untitled stack',
+          color: VIVALDI_COLOR_REVERSE[vivExtData.tabGroupColor] || 'grey',
+          tabIds: [],
+        });
+      }
+      stacks.get(vivExtData.group).tabIds.push(tab.id);
+    }
+    return [...stacks.values()];
+  }
+
+  if (groupingStrategy === 'chrome-groups' && chrome.tabGroups && chrome.tabGroups.query) {
+    const windowId = typeof scope === 'number' ? scope : chrome.windows.WINDOW_ID_CURRENT;
+    const groups = await chrome.tabGroups.query(scope === 'all' ? {} : { windowId });
+    const windowIds = new Set(tabs.map(t => t.windowId));
+    return groups.filter(g => windowIds.has(g.windowId)).map(g => ({
+      id: String(g.id),
+      title: g.title || 'Untitled group',
+      color: GROUP_COLORS.includes(g.color) ? g.color : 'grey',
+      tabIds: tabs.filter(t => t.groupId === g.id).map(t => t.id),
+    }));
+  }
+
+  return [];
+}
+
+async function applyTabGroupsVivaldi(groups: TabGroupProposal[]) {
+  console.log('[TabOrganizer BG] Applying Vivaldi tab stacks:', groups);
+
+  for (const group of groups) {
+    if (!group.tabIds || group.tabIds.length === 0) continue;
+
+    // Existing stacks keep their id so the new tabs join them
+    const stackId = group.existingGroupId || crypto.randomUUID();
+    const vivaldiColor = VIVALDI_COLOR_MAP[group.color] || 'Default';
+    console.log(`[TabOrganizer BG] ${group.existingGroupId ? 'Extending' : 'Creating'} Vivaldi stack "${group.groupName}" color=${vivaldiColor} (${stackId})`);
+
+    for (const tabId of group.tabIds) {
+      try {
+        const tab = await chrome.tabs.get(tabId);
+        const vivExtData = parseVivExtData(tab);
+        vivExtData.group = stackId;
+        vivExtData.fixedGroupTitle = group.groupName;
+        vivExtData.tabGroupColor = vivaldiColor;
+        console.log(`[TabOrganizer BG] Tab ${tabId} writing vivExtData:`, JSON.stringify(vivExtData));
+        await chrome.tabs.update(tabId, { vivExtData: JSON.stringify(vivExtData) });
+      } catch (err) {
+        console.warn(`[TabOrganizer BG] Skipping missing tab ${tabId}:`, err.message);
+      }
+    }
+  }
+
+  console.log('[TabOrganizer BG] All Vivaldi stacks applied successfully');
+}
+
+async function applyTabGroups(proposals: TabGroupProposal[]): Promise<void> {
+  if (!groupingStrategy) await detectStrategy();
+  console.log('[TabOrganizer BG] Applying groups (strategy: ' + groupingStrategy + '):', proposals);
+
+  // Pinned tabs and tabs in locked groups stay put, whatever the proposal says
+  const groups = await withoutProtectedTabs(proposals);
+  await markCreatedGroups(groups);
+
+  if (groupingStrategy === 'vivaldi-stacks') {
+    return applyTabGroupsVivaldi(groups);
+  }
+
+  if (groupingStrategy === 'chrome-groups') {
+    // Filter out tabs that no longer exist before grouping; tabs may sit in any window
+    const existingTabs = await chrome.tabs.query({});
+    const existingIds = new Set(existingTabs.map(t => t.id));
+
+    for (const group of groups) {
+      const validIds = (group.tabIds || []).filter(id => existingIds.has(id));
+      if (validIds.length === 0) continue;
+      try {
+        if (group.existingGroupId) {
+          console.log(`[TabOrganizer BG] Adding tabs to existing group "${group.groupName}":`, validIds);
+          await chrome.tabs.group({ groupId: Number(group.existingGroupId), tabIds: validIds });
+          continue;
+        }
+        console.log(`[TabOrganizer BG] Creating group "${group.groupName}" with tabs:`, validIds);
+        // Without a window, Chrome would pull the tabs into the current one
+        const windowId = existingTabs.find(t => t.id === validIds[0]).windowId;
+        const groupId = await chrome.tabs.group({ tabIds: validIds, createProperties: { windowId } });
+        console.log(`[TabOrganizer BG] Created group with ID: ${groupId}`);
+        if (chrome.tabGroups && chrome.tabGroups.update) {
+          await chrome.tabGroups.update(groupId, {
+            title: group.groupName,
+            color: group.color
+          });
+          console.log(`[TabOrganizer BG] Updated group "${group.groupName}"`);
+        }
+      } catch (err) {
+        console.error(`[TabOrganizer BG] Error creating group "${group.groupName}":`, err);
+        throw err;
+      }
+    }
+    console.log('[TabOrganizer BG] All groups applied successfully');
+    return;
+  }
+
+  throw new Error('Tab grouping is not supported in this browser');
+}
+
+// Ungroups the remaining tabs of groups the user chose to dissolve
+async function dissolveGroups(groupIds: string[]) {
+  if (!groupIds || !groupIds.length) return;
+  if (!groupingStrategy) await detectionPromise;
+  const ids = new Set(groupIds);
+  const tabs = (await chrome.tabs.query({})).filter(t => ids.has(tabGroupId(t)));
+  if (!tabs.length) return;
+
+  if (groupingStrategy === 'vivaldi-stacks') {
+    for (const tab of tabs) {
+      const vivExtData = parseVivExtData(tab);
+      delete vivExtData.group;
+      delete vivExtData.fixedGroupTitle;
+      delete vivExtData.tabGroupColor;
+      await chrome.tabs.update(tab.id, { vivExtData: JSON.stringify(vivExtData) }).catch(() => {});
+    }
+    return;
+  }
+  await chrome.tabs.ungroup(tabs.map(t => t.id));
+}
+
+// Opens URLs as background tabs at the end of the current window, in order
+async function openTabs(urls: string[]): Promise<number[]> {
+  const tabIds: number[] = [];
+  for (const url of urls || []) {
+    try {
+      const tab = await chrome.tabs.create({ url, active: false });
+      // These are grouped by the caller, so keep auto-assign away from them
+      newTabIds.delete(tab.id);
+      tabIds.push(tab.id);
+    } catch (err) {
+      console.warn(`[TabOrganizer BG] Could not open ${url}:`, err.message);
+    }
+  }
+  return tabIds;
+}
+
+// --- Windows ---
+// With the all-windows scope, groups can be gathered into the focused window or
+// given a window each. Chrome groups move as a whole; Vivaldi stacks travel with
+// their tabs' vivExtData.
+
+async function focusedWindowId(): Promise<number> {
+  const win = await chrome.windows.getLastFocused({ windowTypes: ['normal'] });
+  return win.id;
+}
+
+// Appends the group's tabs, and the existing group or stack they join, to a window
+async function moveGroupToWindow(group: TabGroupProposal, windowId: number, liveIds: Set<number>) {
+  try {
+    if (group.existingGroupId && groupingStrategy === 'chrome-groups') {
+      await chrome.tabGroups.move(Number(group.existingGroupId), { windowId, index: -1 });
+    } else if (group.existingGroupId && groupingStrategy === 'vivaldi-stacks') {
+      const members = (await chrome.tabs.query({})).filter(t => parseVivExtData(t).group === group.existingGroupId);
+      if (members.length) await chrome.tabs.move(members.map(t => t.id), { windowId, index: -1 });
+    }
+    const tabIds = group.tabIds.filter(id => liveIds.has(id));
+    if (tabIds.length) await chrome.tabs.move(tabIds, { windowId, index: -1 });
+  } catch (err) {
+    console.warn(`[TabOrganizer BG] Could not move "${group.groupName}" to window ${windowId}:`, err.message);
+  }
+}
+
+// Window holding most of a group's tabs, counting the existing group or stack it joins
+function homeWindowOf(group: TabGroupProposal, allTabs: BrowserTab[]): number | null {
+  const counts = new Map<number, number>();
+  for (const tab of allTabs) {
+    const member = group.tabIds.includes(tab.id) || (group.existingGroupId && (
+      groupingStrategy === 'vivaldi-stacks'
+        ? parseVivExtData(tab).group === group.existingGroupId
+        : tab.groupId === Number(group.existingGroupId)
+    ));
+    if (member) counts.set(tab.windowId, (counts.get(tab.windowId) || 0) + 1);
+  }
+  if (counts.size < 2) return null;
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+// placement: 'in-place' | 'single-window' | 'window-per-group'
+async function placeGroups(groups: TabGroupProposal[], placement: WindowPlacement) {
+  if (!groupingStrategy) await detectionPromise;
+  const allTabs: BrowserTab[] = await chrome.tabs.query({});
+  const liveIds = new Set(allTabs.map(t => t.id));
+
+  if (!placement || placement === 'in-place') {
+    // A group can only live in one window, so one spanning windows gathers where most of it already is
+    for (const group of groups) {
+      const windowId = homeWindowOf(group, allTabs);
+      if (windowId !== null) await moveGroupToWindow(group, windowId, liveIds);
+    }
+    return;
+  }
+
+  if (placement === 'single-window') {
+    const windowId = await focusedWindowId();
+    for (const group of groups) await moveGroupToWindow(group, windowId, liveIds);
+    return;
+  }
+
+  for (const group of groups) {
+    // New windows open with a blank tab, closed once the group has moved in
+    const win = await chrome.windows.create({ focused: false });
+    await moveGroupToWindow(group, win.id, liveIds);
+    if (win.tabs?.[0]) await chrome.tabs.remove(win.tabs[0].id).catch(() => {});
+  }
+}
+
+// Moves every tab from the other normal windows into the focused one, keeping
+// groups and stacks together. Returns how many tabs were moved.
+async function mergeAllWindows(): Promise<number> {
+  if (!groupingStrategy) await detectionPromise;
+  const target = await chrome.windows.getLastFocused({ windowTypes: ['normal'] });
+  const windows = await chrome.windows.getAll({ windowTypes: ['normal'] });
+  let moved = 0;
+
+  for (const win of windows) {
+    // Tabs can't cross between incognito and regular windows
+    if (win.id === target.id || win.incognito !== target.incognito) continue;
+    if (groupingStrategy === 'chrome-groups' && chrome.tabGroups) {
+      for (const group of await chrome.tabGroups.query({ windowId: win.id })) {
+        moved += (await chrome.tabs.query({ groupId: group.id })).length;
+        await chrome.tabGroups.move(group.id, { windowId: target.id, index: -1 });
+      }
+    }
+    const rest = await chrome.tabs.query({ windowId: win.id });
+    const pinned = rest.filter(t => t.pinned).map(t => t.id);
+    const unpinned = rest.filter(t => !t.pinned).map(t => t.id);
+    // Pinned tabs have to stay in front of the others
+    if (pinned.length) await chrome.tabs.move(pinned, { windowId: target.id, index: 0 });
+    if (unpinned.length) await chrome.tabs.move(unpinned, { windowId: target.id, index: -1 });
+    moved += rest.length;
+  }
+  return moved;
+}
+
+// --- Ordering ---
+// After groups are applied, every window they landed in is rearranged: pinned
+// tabs stay in front, then the groups in the chosen order with their tabs
+// sorted, then the ungrouped tabs. Locked groups keep their place and are never
+// sorted; the rest fills the space around them.
+
+// A group being ordered, with the tabs it holds in the window
+type OrderedGroup = ExistingGroup & { tabs: BrowserTab[] };
+
+function tabDomain(tab: BrowserTab) {
+  const parsed = parseUrl(tab.url || '');
+  return parsed ? parsed.hostname.toLowerCase().replace(/^www\./, '') : '';
+}
+
+function sortTabs(tabs: BrowserTab[], tabOrder: TabOrder) {
+  const byIndex = (a: BrowserTab, b: BrowserTab) => a.index - b.index;
+  const compare = {
+    domain: (a, b) => tabDomain(a).localeCompare(tabDomain(b)) || byIndex(a, b),
+    title: (a, b) => (a.title || '').localeCompare(b.title || '') || byIndex(a, b),
+    recent: (a, b) => (b.lastAccessed || 0) - (a.lastAccessed || 0) || byIndex(a, b),
+  }[tabOrder] || byIndex;
+  return [...tabs].sort(compare);
+}
+
+// reviewRank: group id -> position of the proposal that filled it
+function sortGroups(groups: OrderedGroup[], groupOrder: GroupOrder, reviewRank: Map<string, number>) {
+  const start = (g: OrderedGroup) => Math.min(...g.tabs.map(t => t.index));
+  const lastUsed = (g: OrderedGroup) => Math.max(...g.tabs.map(t => t.lastAccessed || 0));
+  const rank = (g: OrderedGroup) => (reviewRank.has(g.id) ? reviewRank.get(g.id) : Infinity);
+  const compare = {
+    review: (a, b) => rank(a) - rank(b),
+    size: (a, b) => b.tabs.length - a.tabs.length,
+    name: (a, b) => a.title.localeCompare(b.title),
+    recent: (a, b) => lastUsed(b) - lastUsed(a),
+  }[groupOrder];
+  return [...groups].sort((a, b) => (compare ? compare(a, b) : 0) || start(a) - start(b));
+}
+
+// Each group or stack is one block, each ungrouped tab another. Locked blocks stay
+// where they are and the movable ones fill the space around them in order; a block
+// too big for the space left before a locked one goes after it, which moves the
+// locked block towards the front by the space left unused.
+function layoutBlocks(movable: BrowserTab[][], locked: BrowserTab[][], firstIndex: number): BrowserTab[][] {
+  const queue = [...movable];
+  const layout: BrowserTab[][] = [];
+  let position = firstIndex;
+  for (const block of [...locked].sort((a, b) => a[0].index - b[0].index)) {
+    while (queue.length && position + queue[0].length <= block[0].index) {
+      position += queue[0].length;
+      layout.push(queue.shift());
+    }
+    layout.push(block);
+    position += block.length;
+  }
+  return [...layout, ...queue];
+}
+
+async function orderWindow(
+  windowTabs: BrowserTab[],
+  groups: ExistingGroup[],
+  lockedIds: Set<string>,
+  reviewRank: Map<string, number>,
+  ordering: OrderSettings
+) {
+  const pinnedCount = windowTabs.filter(t => t.pinned).length;
+  const unpinned = windowTabs.filter(t => !t.pinned);
+  const present = groups
+    .map(g => ({ ...g, tabs: sortTabs(unpinned.filter(t => tabGroupId(t) === g.id), 'none') }))
+    .filter(g => g.tabs.length > 0);
+  const windowGroups = sortGroups(present.filter(g => !lockedIds.has(g.id)), ordering.groupOrder, reviewRank);
+  const ungrouped = sortTabs(unpinned.filter(t => !tabGroupId(t)), 'none');
+  const layout = layoutBlocks(
+    [...windowGroups.map(g => sortTabs(g.tabs, ordering.tabOrder)), ...ungrouped.map(t => [t])],
+    present.filter(g => lockedIds.has(g.id)).map(g => g.tabs),
+    pinnedCount
+  );
+
+  if (groupingStrategy === 'vivaldi-stacks') {
+    // Stacks are just runs of tabs sharing vivExtData, so the whole strip is laid out tab by tab
+    const sequence = layout.flat();
+    for (let i = 0; i < sequence.length; i++) {
+      await chrome.tabs.move(sequence[i].id, { index: pinnedCount + i });
+    }
+    return;
+  }
+
+  // Chrome groups move as a whole. Blocks are placed from the left, so everything
+  // before the current one is final and it only ever moves towards the front.
+  let position = pinnedCount;
+  for (const block of layout) {
+    const groupId = tabGroupId(block[0]);
+    if (groupId) await chrome.tabGroups.move(Number(groupId), { index: position });
+    else await chrome.tabs.move(block[0].id, { index: position });
+    position += block.length;
+  }
+  if (ordering.tabOrder === 'none') return;
+
+  // Moves inside a group's own span keep the tab in the group
+  for (const group of windowGroups) {
+    const first = Math.min(...(await chrome.tabs.query({ groupId: Number(group.id) })).map(t => t.index));
+    const sorted = sortTabs(group.tabs, ordering.tabOrder);
+    for (let i = 0; i < sorted.length; i++) {
+      await chrome.tabs.move(sorted[i].id, { index: first + i });
+    }
+  }
+}
+
+async function orderTabs(proposals: TabGroupProposal[], ordering: OrderSettings) {
+  if (!ordering || (ordering.groupOrder === 'none' && ordering.tabOrder === 'none')) return;
+  if (!groupingStrategy) await detectionPromise;
+  const allTabs: BrowserTab[] = await chrome.tabs.query({});
+  const tabById = new Map(allTabs.map(t => [t.id, t]));
+
+  const reviewRank = new Map<string, number>();
+  const windowIds = new Set<number>();
+  proposals.forEach((proposal, i) => {
+    for (const tabId of proposal.tabIds) {
+      const tab = tabById.get(tabId);
+      if (!tab) continue;
+      windowIds.add(tab.windowId);
+      const groupId = tabGroupId(tab);
+      if (groupId && !reviewRank.has(groupId)) reviewRank.set(groupId, i);
+    }
+  });
+
+  const prefs = await loadGroupPrefs();
+  const groups = await getExistingGroups('all');
+  const lockedIds = new Set(groups.filter(g => groupMode(prefs, g, true) === 'lock').map(g => g.id));
+  for (const windowId of windowIds) {
+    try {
+      await orderWindow(allTabs.filter(t => t.windowId === windowId), groups, lockedIds, reviewRank, ordering);
+    } catch (err) {
+      console.warn(`[TabOrganizer BG] Could not reorder window ${windowId}:`, err.message);
+    }
+  }
+}
+
+async function applyCleanup(
+  tabIdsToClose: number[],
+  groups: TabGroupProposal[],
+  tabIdsToDiscard: number[],
+  closeReasons: Record<number, ClosedTabReason>,
+  placement: WindowPlacement = 'in-place',
+  dissolveGroupIds: string[] = []
+): Promise<number> {
+  // 1. Close tabs first, logging them to the graveyard while their details are still readable
+  if (tabIdsToClose && tabIdsToClose.length > 0) {
+    try {
+      await recordClosedTabs(tabIdsToClose, closeReasons || {});
+    } catch (err) {
+      console.warn('[TabOrganizer BG] Could not record closed tabs:', err.message);
+    }
+    try {
+      await chrome.tabs.remove(tabIdsToClose);
+    } catch (err) {
+      // Some tabs may already be closed — not fatal
+      console.warn('[TabOrganizer BG] Some tabs already closed:', err.message);
+    }
+  }
+
+  // 2. Ungroup what is left of dissolved groups, then strip closed and protected IDs
+  // from group proposals and apply. Protected tabs go before placement can move them.
+  await dissolveGroups(dissolveGroupIds);
+  if (groups && groups.length > 0) {
+    const closedSet = new Set(tabIdsToClose || []);
+    const filteredGroups = await withoutProtectedTabs(
+      groups.map(g => ({ ...g, tabIds: g.tabIds.filter(id => !closedSet.has(id)) }))
+    );
+    if (filteredGroups.length > 0) {
+      await placeGroups(filteredGroups, placement);
+      await applyTabGroups(filteredGroups);
+      await orderTabs(filteredGroups, (await loadSettings()).ordering);
+      await rememberGroupAssignments(filteredGroups);
+      await rememberGroupColors(filteredGroups);
+    }
+  }
+
+  // 3. Discard last so grouping still sees the original tab IDs
+  return discardTabs(tabIdsToDiscard || []);
+}
+
+// Unload tabs from memory while keeping them in the strip. Chrome refuses to
+// discard the active tab, so failures are skipped; returns how many succeeded.
+async function discardTabs(tabIds: number[]): Promise<number> {
+  let discarded = 0;
+  for (const tabId of tabIds) {
+    try {
+      if (await chrome.tabs.discard(tabId)) discarded++;
+    } catch (err) {
+      console.warn('[TabOrganizer BG] Could not discard tab', tabId, err.message);
+    }
+  }
+  return discarded;
+}
+
+// --- Group colors ---
+// Colors chosen for applied groups are remembered by name so the next run can
+// reuse them, see services/colorService.ts.
+
+async function rememberGroupColors(groups: TabGroupProposal[]) {
+  try {
+    await recordGroupColors(groups || []);
+  } catch (err) {
+    console.warn('[TabOrganizer BG] Could not update group colors:', err.message);
+  }
+}
+
+// --- Graveyard ---
+// Every tab the extension closes is logged with its reason and group so it can
+// be found and reopened from the popup. Retention comes from the saved settings.
+
+async function recordClosedTabs(tabIds: number[], closeReasons: Record<number, ClosedTabReason>) {
+  const allTabs: BrowserTab[] = await chrome.tabs.query({});
+  const tabById = new Map(allTabs.map(t => [t.id, t]));
+  const groupNameByTab = new Map<number, string>();
+  for (const group of await getExistingGroups('all')) {
+    for (const tabId of group.tabIds) groupNameByTab.set(tabId, group.title);
+  }
+
+  const closedAt = Date.now();
+  const entries: GraveyardEntry[] = tabIds
+    .map(id => tabById.get(id))
+    .filter(tab => tab && tab.url)
+    .map(tab => ({
+      id: crypto.randomUUID(),
+      url: tab.url,
+      title: tab.title || tab.url,
+      favIconUrl: tab.favIconUrl,
+      reason: closeReasons[tab.id] || 'manual',
+      closedAt,
+      groupName: groupNameByTab.get(tab.id),
+    }));
+  if (!entries.length) return;
+  await addGraveyardEntries(entries, (await loadSettings()).graveyard);
+}
+
+// --- Undo ---
+// Before each organize/cleanup the window's tabs, order, grouping and Vivaldi
+// stack data are snapshotted to storage so the operation can be reversed.
+
+const UNDO_STORAGE_KEY = 'espressobot_undo_history';
+const UNDO_HISTORY_LIMIT = 5;
+
+interface UndoSnapshot {
+  id: string;
+  label: string;
+  createdAt: number;
+  windowId?: number;  // window of single-window snapshots, for tabs recorded without one
+  strategy: GroupingStrategy | null;
+  tabs: {
+    id: number;
+    url: string;
+    title: string;
+    index: number;
+    windowId: number;
+    pinned: boolean;
+    groupId: number;
+    vivExtData?: string;
+  }[];
+  groups: { id: number; title: string; color: string; collapsed: boolean; windowId: number }[];
+}
+
+function describeOperation(groups: TabGroupProposal[], tabIdsToClose: number[], tabIdsToDiscard: number[] = []): string {
+  const parts = [];
+  const groupCount = (groups || []).length;
+  const closeCount = (tabIdsToClose || []).length;
+  const discardCount = (tabIdsToDiscard || []).length;
+  if (groupCount) parts.push(`Organized ${groupCount} group${groupCount !== 1 ? 's' : ''}`);
+  if (closeCount) parts.push(`closed ${closeCount} tab${closeCount !== 1 ? 's' : ''}`);
+  if (discardCount) parts.push(`discarded ${discardCount} tab${discardCount !== 1 ? 's' : ''}`);
+  const label = parts.join(', ') || 'Organized tabs';
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+async function getUndoHistory(): Promise<UndoSnapshot[]> {
+  return readStored(UNDO_STORAGE_KEY, []);
+}
+
+async function setUndoHistory(history: UndoSnapshot[]) {
+  await writeStored(UNDO_STORAGE_KEY, history);
+}
+
+function summarizeSnapshot(snapshot: UndoSnapshot): UndoEntry {
+  return {
+    id: snapshot.id,
+    label: snapshot.label,
+    createdAt: snapshot.createdAt,
+    tabCount: snapshot.tabs.length,
+  };
+}
+
+// Operations that move tabs between windows snapshot every normal window
+async function captureSnapshot(label: string, allWindows = false): Promise<UndoSnapshot> {
+  if (!groupingStrategy) await detectionPromise;
+  const tabs: BrowserTab[] = await chrome.tabs.query(tabQueryFor(allWindows ? 'all' : 'current'));
+  let groups: UndoSnapshot['groups'] = [];
+  if (groupingStrategy === 'chrome-groups' && chrome.tabGroups && chrome.tabGroups.query) {
+    const live = await chrome.tabGroups.query(allWindows ? {} : { windowId: chrome.windows.WINDOW_ID_CURRENT });
+    groups = live.map(g => ({ id: g.id, title: g.title || '', color: g.color, collapsed: !!g.collapsed, windowId: g.windowId }));
+  }
+  return {
+    id: crypto.randomUUID(),
+    label,
+    createdAt: Date.now(),
+    windowId: tabs[0]?.windowId,
+    strategy: groupingStrategy,
+    tabs: tabs.map(t => ({
+      id: t.id,
+      url: t.url || t.pendingUrl || '',
+      title: t.title || '',
+      index: t.index,
+      windowId: t.windowId,
+      pinned: !!t.pinned,
+      groupId: typeof t.groupId === 'number' ? t.groupId : -1,
+      vivExtData: t.vivExtData,
+    })),
+    groups,
+  };
+}
+
+async function recordUndoSnapshot(label: string, allWindows = false) {
+  try {
+    const snapshot = await captureSnapshot(label, allWindows);
+    const history = await getUndoHistory();
+    await setUndoHistory([snapshot, ...history].slice(0, UNDO_HISTORY_LIMIT));
+  } catch (err) {
+    // Never block the operation itself on a failed snapshot
+    console.warn('[TabOrganizer BG] Failed to record undo snapshot:', err.message);
+  }
+}
+
+async function undoOperation(snapshotId?: string) {
+  const history = await getUndoHistory();
+  const snapshot = snapshotId ? history.find(s => s.id === snapshotId) : history[0];
+  if (!snapshot) throw new Error('Nothing to undo.');
+
+  // Tabs may have moved to another window since, so look for them everywhere
+  const liveTabs = await chrome.tabs.query({});
+  const liveIds = new Set(liveTabs.map(t => t.id));
+
+  // Windows emptied by a move (e.g. merging windows) are gone; recreate them and
+  // close their placeholder tab once everything is back
+  const liveWindowIds = new Set((await chrome.windows.getAll()).map(w => w.id));
+  const windowMap = new Map<number, number>();
+  const placeholderTabIds: number[] = [];
+  for (const windowId of new Set(snapshot.tabs.map(t => t.windowId ?? snapshot.windowId))) {
+    if (liveWindowIds.has(windowId)) {
+      windowMap.set(windowId, windowId);
+      continue;
+    }
+    const created = await chrome.windows.create({ focused: false });
+    windowMap.set(windowId, created.id);
+    if (created.tabs?.[0]) placeholderTabIds.push(created.tabs[0].id);
+  }
+  const windowOf = (windowId?: number) => windowMap.get(windowId ?? snapshot.windowId);
+
+  // 1. Reopen closed tabs, remembering their new IDs
+  const idMap = new Map<number, number>();
+  for (const tab of [...snapshot.tabs].sort((a, b) => a.index - b.index)) {
+    if (liveIds.has(tab.id)) {
+      idMap.set(tab.id, tab.id);
+      continue;
+    }
+    if (!tab.url) continue;
+    try {
+      const created = await chrome.tabs.create({
+        windowId: windowOf(tab.windowId),
+        url: tab.url,
+        index: tab.index,
+        pinned: tab.pinned,
+        active: false,
+      });
+      idMap.set(tab.id, created.id);
+    } catch (err) {
+      console.warn(`[TabOrganizer BG] Could not reopen ${tab.url}:`, err.message);
+    }
+  }
+
+  // 2. Restore order first so regrouped tabs are already adjacent
+  for (const tab of [...snapshot.tabs].sort((a, b) => a.index - b.index)) {
+    const id = idMap.get(tab.id);
+    if (id === undefined) continue;
+    try {
+      await chrome.tabs.move(id, { windowId: windowOf(tab.windowId), index: tab.index });
+    } catch {
+      // Index may be out of range if tabs were closed since; leave it where it is
+    }
+  }
+
+  // 3. Restore grouping
+  if (snapshot.strategy === 'vivaldi-stacks') {
+    for (const tab of snapshot.tabs) {
+      const id = idMap.get(tab.id);
+      if (id === undefined) continue;
+      try {
+        await chrome.tabs.update(id, { vivExtData: tab.vivExtData || JSON.stringify({}) });
+      } catch (err) {
+        console.warn(`[TabOrganizer BG] Could not restore stack data for tab ${id}:`, err.message);
+      }
+    }
+  } else if (snapshot.strategy === 'chrome-groups') {
+    const ungrouped = snapshot.tabs
+      .filter(t => t.groupId === -1 && !t.pinned)
+      .map(t => idMap.get(t.id))
+      .filter(id => id !== undefined);
+    if (ungrouped.length) {
+      try {
+        await chrome.tabs.ungroup(ungrouped);
+      } catch (err) {
+        console.warn('[TabOrganizer BG] Could not ungroup tabs:', err.message);
+      }
+    }
+
+    const liveGroups = chrome.tabGroups ? await chrome.tabGroups.query({}) : [];
+    const liveGroupWindows = new Map(liveGroups.map(g => [g.id, g.windowId]));
+    for (const group of snapshot.groups) {
+      const members = snapshot.tabs
+        .filter(t => t.groupId === group.id)
+        .map(t => idMap.get(t.id))
+        .filter(id => id !== undefined);
+      if (!members.length) continue;
+      try {
+        // Reuse the original group if it survived in the same window, otherwise recreate it
+        const groupId = liveGroupWindows.get(group.id) === windowOf(group.windowId)
+          ? await chrome.tabs.group({ groupId: group.id, tabIds: members })
+          : await chrome.tabs.group({ tabIds: members, createProperties: { windowId: windowOf(group.windowId) } });
+        await chrome.tabGroups.update(groupId, { title: group.title, color: group.color, collapsed: group.collapsed });
+      } catch (err) {
+        console.warn(`[TabOrganizer BG] Could not restore group "${group.title}":`, err.message);
+      }
+    }
+  }
+
+  if (placeholderTabIds.length) {
+    try {
+      await chrome.tabs.remove(placeholderTabIds);
+    } catch {
+      // Already closed by the user
+    }
+  }
+
+  await setUndoHistory(history.filter(s => s.id !== snapshot.id));
+}
+
+// --- Schedules ---
+// Each enabled schedule in settings owns one alarm. Interval schedules repeat;
+// weekly ones are one-shot alarms re-armed for the next matching day after firing.
+
+const SCHEDULE_ALARM_PREFIX = 'espressobot-schedule:';
+const PENDING_REVIEW_STORAGE_KEY = 'espressobot_pending_review';
+
+// Next local time on one of the schedule's weekdays at HH:MM, strictly after `from`
+function nextWeeklyOccurrence(schedule: Schedule, from = Date.now()): number | null {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  if (!schedule.days.length || Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from);
+    candidate.setDate(candidate.getDate() + offset);
+    candidate.setHours(hours, minutes, 0, 0);
+    if (candidate.getTime() > from && schedule.days.includes(candidate.getDay())) return candidate.getTime();
+  }
+  return null;
+}
+
+async function armSchedule(schedule: Schedule) {
+  const name = SCHEDULE_ALARM_PREFIX + schedule.id;
+  if (schedule.mode === 'interval') {
+    const period = Math.max(1, schedule.intervalMinutes);
+    const existing = await chrome.alarms.get(name);
+    // Re-creating would restart the countdown, so leave a matching alarm alone
+    if (existing && existing.periodInMinutes === period) return;
+    await chrome.alarms.create(name, { delayInMinutes: period, periodInMinutes: period });
+    return;
+  }
+  const when = nextWeeklyOccurrence(schedule);
+  if (when) await chrome.alarms.create(name, { when });
+}
+
+// Idempotent: safe to call whenever the worker starts or settings change
+async function syncScheduleAlarms() {
+  const { schedules } = await loadSettings();
+  const enabled = schedules.filter(s => s.enabled);
+  const wanted = new Set(enabled.map(s => SCHEDULE_ALARM_PREFIX + s.id));
+  for (const alarm of await chrome.alarms.getAll()) {
+    if (alarm.name.startsWith(SCHEDULE_ALARM_PREFIX) && !wanted.has(alarm.name)) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+  for (const schedule of enabled) await armSchedule(schedule);
+}
+
+async function setPendingReview(review: PendingReview) {
+  await writeStored(PENDING_REVIEW_STORAGE_KEY, review);
+  await chrome.action.setBadgeBackgroundColor({ color: '#f97316' });
+  await chrome.action.setBadgeText({ text: '!' });
+}
+
+async function getPendingReview(): Promise<PendingReview | null> {
+  return readStored(PENDING_REVIEW_STORAGE_KEY, null);
+}
+
+async function clearPendingReview() {
+  await removeStored(PENDING_REVIEW_STORAGE_KEY);
+  await chrome.action.setBadgeText({ text: '' });
+}
+
+async function runScheduledCleanup(schedule: Schedule, settings: Settings) {
+  const candidates = detectCleanupCandidates(await getOpenTabs(settings.windows.scope), settings.cleanup);
+  // Same selection the review list starts with: protected tabs and near-duplicates are kept
+  const tabIdsToClose = tabIdsWithAction(defaultCleanupActions(candidates), 'close');
+  if (!tabIdsToClose.length) return;
+
+  if (schedule.requireConfirmation) {
+    await setPendingReview({
+      task: 'cleanup', createdAt: Date.now(),
+      proposals: [], unassignedTabIds: [], withheldTabIds: [], cleanupCandidates: candidates,
+    });
+    return;
+  }
+  await recordUndoSnapshot(`Scheduled cleanup: ${describeOperation([], tabIdsToClose).toLowerCase()}`, settings.windows.scope === 'all');
+  const reasons = Object.fromEntries(candidates.map(c => [c.tabId, c.reason]));
+  await applyCleanup(tabIdsToClose, [], [], reasons);
+}
+
+// Only ungrouped tabs are sorted, into the existing groups where they fit. User
+// rules always apply; the rest goes to the AI when it is configured. Without it,
+// or when the request fails and local fallback is on, the rest is grouped locally.
+async function runScheduledOrganize(schedule: Schedule, settings: Settings) {
+  const tabs = await getOpenTabs(settings.windows.scope);
+  const ungrouped = tabs.filter(t => !t.groupId);
+  if (!ungrouped.length) return;
+  // Scheduled runs only ever add to groups, so anything not locked is a target
+  const prefs = await loadGroupPrefs();
+  const existingGroups = (await getExistingGroups(settings.windows.scope)).filter(g => groupMode(prefs, g, true) === 'merge');
+  const ruled = applyGroupingRules(ungrouped, settings.rules, existingGroups);
+  const groupLocally = () =>
+    mergeRuleProposals(ruled.proposals, groupTabsLocally(ruled.remaining, existingGroups, tabs));
+
+  let result: CategorizationResult = { proposals: ruled.proposals, unassignedTabIds: [] };
+  let withheld: Tab[] = [];
+  const canUseAI = settings.groupingEngine !== 'local' && isProviderConfigured(settings);
+  if (!canUseAI) {
+    result = groupLocally();
+  } else if (ruled.remaining.length >= 2) {
+    const filtered = applyPrivacyFilter(ruled.remaining, settings.privacy);
+    try {
+      if (filtered.sendable.length) {
+        result = await groupTabsWithAI(filtered.sendable, settings, existingGroups, ruled.proposals);
+      }
+      withheld = filtered.withheld;
+    } catch (err) {
+      if (!settings.localFallback) throw err;
+      console.warn('[TabOrganizer BG] Scheduled AI grouping failed, grouping locally:', err.message);
+      result = groupLocally();
+    }
+  }
+  if (!result.proposals.length) return;
+
+  if (schedule.requireConfirmation) {
+    await setPendingReview({
+      task: 'organize', createdAt: Date.now(),
+      proposals: result.proposals,
+      unassignedTabIds: result.unassignedTabIds,
+      withheldTabIds: withheld.map(t => t.id),
+      ruleTabIds: ruled.proposals.flatMap(p => p.tabIds),
+      cleanupCandidates: [],
+    });
+    return;
+  }
+  const proposals = await withoutProtectedTabs(applyColorRegistry(result.proposals, await loadColorRegistry(), groupingStrategy));
+  if (!proposals.length) return;
+  await recordUndoSnapshot(`Scheduled: ${describeOperation(proposals, []).toLowerCase()}`, settings.windows.scope === 'all' || settings.windows.placement !== 'in-place');
+  await placeGroups(proposals, settings.windows.placement);
+  await applyTabGroups(proposals);
+  await orderTabs(proposals, settings.ordering);
+  await rememberGroupAssignments(proposals);
+  await rememberGroupColors(proposals);
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (!alarm.name.startsWith(SCHEDULE_ALARM_PREFIX)) return;
+  const settings = await loadSettings();
+  const schedule = settings.schedules.find(s => SCHEDULE_ALARM_PREFIX + s.id === alarm.name);
+  if (!schedule || !schedule.enabled) {
+    await chrome.alarms.clear(alarm.name);
+    return;
+  }
+
+  try {
+    // A pending review is never overwritten before someone has looked at it
+    if (!schedule.requireConfirmation || !(await getPendingReview())) {
+      if (schedule.task === 'cleanup') await runScheduledCleanup(schedule, settings);
+      else await runScheduledOrganize(schedule, settings);
+    }
+  } catch (err) {
+    console.error(`[TabOrganizer BG] Scheduled ${schedule.task} failed:`, err.message);
+  } finally {
+    if (schedule.mode === 'weekly') await armSchedule(schedule);
+  }
+});
+
+onSettingsSaved(() => {
+  syncScheduleAlarms();
+  syncIdleCollapseAlarm();
+});
+
+syncScheduleAlarms();
+syncIdleCollapseAlarm();
+
+// Badge text does not survive a browser restart, so re-apply it for a waiting review
+getPendingReview().then((review) => {
+  if (review) chrome.action.setBadgeText({ text: '!' });
+});
+
+// --- Auto-assign ---
+// Tabs opened by the user are matched against the window's sticky groups once
+// they finish loading: first by user rules, then through a URL -> group cache
+// learned from applied groupings, then (optionally) by asking the model.
+
+const URL_GROUP_CACHE_KEY = 'espressobot_url_group_cache';
+const URL_GROUP_CACHE_LIMIT = 500;
+const NEW_TAB_WINDOW_MS = 5 * 60 * 1000;  // how long a new tab may take to reach a real page
+
+const newTabIds = new Map<number, number>();  // tabId -> created at; lost when the worker sleeps, which is fine
+
+// Remembers the titles of groups this extension creates, so groups the user
+// made by hand can be told apart from them
+async function markCreatedGroups(groups: TabGroupProposal[]) {
+  const created = groups.filter(g => !g.existingGroupId && g.tabIds.length > 0);
+  try {
+    await markGroupsCreated(created.map(g => g.groupName));
+  } catch (err) {
+    console.warn('[TabOrganizer BG] Could not record created groups:', err.message);
+  }
+}
+
+async function protectedTabIds(): Promise<Set<number>> {
+  const prefs = await loadGroupPrefs();
+  const pinned: BrowserTab[] = await chrome.tabs.query({ pinned: true });
+  const locked = (await getExistingGroups('all')).filter(g => groupMode(prefs, g, true) === 'lock');
+  return new Set([...pinned.map(t => t.id), ...locked.flatMap(g => g.tabIds)]);
+}
+
+// Drops pinned tabs and tabs in locked groups from proposals, and any group left empty
+async function withoutProtectedTabs(groups: TabGroupProposal[]): Promise<TabGroupProposal[]> {
+  const protectedIds = await protectedTabIds();
+  return groups
+    .map(g => ({ ...g, tabIds: (g.tabIds || []).filter(id => !protectedIds.has(id)) }))
+    .filter(g => g.tabIds.length > 0);
+}
+
+// "github.com/org" is tried before "github.com" so per-project groups win
+function urlCacheKeys(url: string): string[] {
+  const parsed = parseUrl(url);
+  if (!parsed || !/^https?:$/.test(parsed.protocol)) return [];
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const segment = parsed.pathname.split('/').filter(Boolean)[0];
+  return segment ? [`${host}/${segment.toLowerCase()}`, host] : [host];
+}
+
+async function rememberGroupAssignments(groups: TabGroupProposal[]) {
+  try {
+    const tabs: BrowserTab[] = await chrome.tabs.query({});
+    const urlById = new Map(tabs.map(t => [t.id, t.url]));
+    const cache: Record<string, { groupName: string; updatedAt: number }> =
+      await readStored(URL_GROUP_CACHE_KEY, {});
+    const updatedAt = Date.now();
+    for (const group of groups || []) {
+      for (const tabId of group.tabIds || []) {
+        for (const key of urlCacheKeys(urlById.get(tabId) || '')) {
+          cache[key] = { groupName: group.groupName, updatedAt };
+        }
+      }
+    }
+    const pruned = Object.fromEntries(
+      Object.entries(cache).sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, URL_GROUP_CACHE_LIMIT)
+    );
+    await writeStored(URL_GROUP_CACHE_KEY, pruned);
+  } catch (err) {
+    console.warn('[TabOrganizer BG] Could not update URL group cache:', err.message);
+  }
+}
+
+async function cachedGroupFor(url: string, groups: ExistingGroup[]): Promise<ExistingGroup | null> {
+  const cache = await readStored<Record<string, { groupName: string }>>(URL_GROUP_CACHE_KEY, {});
+  for (const key of urlCacheKeys(url)) {
+    const hit = cache[key];
+    const group = hit && groups.find(g => groupPrefKey(g.title) === groupPrefKey(hit.groupName));
+    if (group) return group;
+  }
+  return null;
+}
+
+// Only accepts an answer that lands in one of the existing groups
+async function classifyWithAI(tab: BrowserTab, groups: ExistingGroup[], settings: Settings): Promise<ExistingGroup | null> {
+  if (settings.groupingEngine === 'local') return null;
+  if (!isProviderConfigured(settings)) return null;
+  const { sendable } = applyPrivacyFilter([{ id: tab.id, title: tab.title || '', url: tab.url }], settings.privacy);
+  if (!sendable.length) return null;
+
+  const result = await groupTabsWithAI(sendable, settings, groups);
+  const match = result.proposals.find(p => p.existingGroupId && p.tabIds.includes(tab.id));
+  return match ? groups.find(g => g.id === match.existingGroupId) || null : null;
+}
+
+async function autoAssignTab(tab: BrowserTab) {
+  if (tab.pinned || tabGroupId(tab) || !/^https?:/.test(tab.url || '')) return;
+  const settings = await loadSettings();
+  if (!settings.autoAssign.enabled) return;
+
+  const prefs = await loadGroupPrefs();
+  // The service worker's current window is the last focused one, not necessarily the tab's.
+  // Locked groups never take new tabs, sticky or not.
+  const groups = (await getExistingGroups(tab.windowId))
+    .filter(g => isSticky(prefs, g) && groupMode(prefs, g, true) !== 'lock');
+  if (!groups.length) return;
+
+  const rule = matchRule({ id: tab.id, url: tab.url, title: tab.title || '' }, settings.rules);
+  const target = rule
+    ? groups.find(g => groupPrefKey(g.title) === groupPrefKey(rule.groupName)) || null
+    : (await cachedGroupFor(tab.url, groups))
+      || (settings.autoAssign.useAI ? await classifyWithAI(tab, groups, settings) : null);
+  if (!target) return;
+
+  console.log(`[TabOrganizer BG] Auto-assigning tab ${tab.id} to "${target.title}"`);
+  await applyTabGroups([{ groupName: target.title, color: target.color, tabIds: [tab.id], existingGroupId: target.id }]);
+}
+
+chrome.tabs.onCreated.addListener((tab) => {
+  if (!tab.pinned) newTabIds.set(tab.id, Date.now());
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  newTabIds.delete(tabId);
+});
+
+// Wait for the first real page: a tab usually starts on the new-tab page
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (changeInfo.status !== 'complete' || !newTabIds.has(tabId)) return;
+  if (!/^https?:/.test(tab.url || '')) return;
+  const createdAt = newTabIds.get(tabId);
+  newTabIds.delete(tabId);
+  if (Date.now() - createdAt > NEW_TAB_WINDOW_MS) return;
+  autoAssignTab(tab).catch((err) => console.warn('[TabOrganizer BG] Auto-assign failed:', err.message));
+});
+
+// --- Focus ---
+// Keeps one group in view: the active tab's group can stay the only expanded
+// one, groups nobody has looked at for a while are collapsed, and the popup can
+// focus a single group. Vivaldi has no API to collapse stacks, so there focusing
+// only switches to the stack, which its compact and accordion styles expand.
+
+const IDLE_COLLAPSE_ALARM = 'espressobot_idle_collapse';
+
+function canCollapseGroups() {
+  return groupingStrategy === 'chrome-groups' && chrome.tabGroups && chrome.tabGroups.update;
+}
+
+// Collapses every group in the window except keepGroupId, which is expanded
+async function collapseGroupsExcept(windowId: number, keepGroupId: number) {
+  for (const group of await chrome.tabGroups.query({ windowId })) {
+    const collapsed = group.id !== keepGroupId;
+    if (group.collapsed === collapsed) continue;
+    await chrome.tabGroups.update(group.id, { collapsed }).catch((err) => {
+      console.warn(`[TabOrganizer BG] Could not ${collapsed ? 'collapse' : 'expand'} group ${group.id}:`, err.message);
+    });
+  }
+}
+
+// Switches to the group's most recently used tab and collapses the others around it
+async function focusGroup(groupId: string) {
+  if (!groupingStrategy) await detectionPromise;
+  const tabs: BrowserTab[] = (await chrome.tabs.query({})).filter(t => tabGroupId(t) === groupId);
+  if (!tabs.length) throw new Error('That group is no longer open');
+
+  const target = tabs.find(t => t.active) || [...tabs].sort((a, b) => (b.lastAccessed || 0) - (a.lastAccessed || 0))[0];
+  await chrome.tabs.update(target.id, { active: true });
+  await chrome.windows.update(target.windowId, { focused: true });
+  if (canCollapseGroups()) await collapseGroupsExcept(target.windowId, target.groupId);
+}
+
+async function collapseInactiveGroups(tabId: number, windowId: number) {
+  const { focus } = await loadSettings();
+  if (!focus.collapseInactive) return;
+  if (!groupingStrategy) await detectionPromise;
+  if (!canCollapseGroups()) return;
+  const tab = await chrome.tabs.get(tabId);
+  await collapseGroupsExcept(windowId, tab.groupId);
+}
+
+// A group is idle when none of its tabs was active in the last idleMinutes.
+// The group holding a window's active tab is never collapsed.
+async function collapseIdleGroups(idleMinutes: number) {
+  if (!groupingStrategy) await detectionPromise;
+  if (!canCollapseGroups()) return;
+  const cutoff = Date.now() - idleMinutes * 60 * 1000;
+  const tabs: BrowserTab[] = await chrome.tabs.query({ windowType: 'normal' });
+
+  for (const group of await chrome.tabGroups.query({ collapsed: false })) {
+    const members = tabs.filter(t => t.groupId === group.id);
+    // Browsers without lastAccessed count every tab as recent, so nothing collapses
+    const lastUsed = Math.max(...members.map(t => t.lastAccessed || Date.now()));
+    if (!members.length || members.some(t => t.active) || lastUsed >= cutoff) continue;
+    await chrome.tabGroups.update(group.id, { collapsed: true }).catch((err) => {
+      console.warn(`[TabOrganizer BG] Could not collapse idle group ${group.id}:`, err.message);
+    });
+  }
+}
+
+async function syncIdleCollapseAlarm() {
+  const { focus } = await loadSettings();
+  if (!focus.idleCollapseMinutes) {
+    await chrome.alarms.clear(IDLE_COLLAPSE_ALARM);
+    return;
+  }
+  if (!(await chrome.alarms.get(IDLE_COLLAPSE_ALARM))) {
+    await chrome.alarms.create(IDLE_COLLAPSE_ALARM, { periodInMinutes: 1 });
+  }
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name !== IDLE_COLLAPSE_ALARM) return;
+  const { focus } = await loadSettings();
+  if (!focus.idleCollapseMinutes) return;
+  collapseIdleGroups(focus.idleCollapseMinutes)
+    .catch((err) => console.warn('[TabOrganizer BG] Idle collapse failed:', err.message));
+});
+
+chrome.tabs.onActivated.addListener(({ tabId, windowId }) => {
+  collapseInactiveGroups(tabId, windowId)
+    .catch((err) => console.warn('[TabOrganizer BG] Collapse on tab switch failed:', err.message));
+});
+
+// Keyboard shortcut, see "commands" in manifest.json
+chrome.commands.onCommand.addListener(async (command) => {
+  if (command !== 'focus-current-group') return;
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  const groupId = tab && tabGroupId(tab);
+  if (!groupId) return;
+  focusGroup(groupId).catch((err) => console.warn('[TabOrganizer BG] Focus failed:', err.message));
+});
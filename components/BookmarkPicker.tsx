@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Search, FolderOpen } from 'lucide-react';
+import { BookmarkFolder } from '../types';
+import { listBookmarkFolders } from '../services/bookmarkService';
+
+interface BookmarkPickerProps {
+  busy: boolean;
+  onOpen: (folder: BookmarkFolder) => void;
+}
+
+// Folders without links of their own are hidden, since opening them would do nothing
+const BookmarkPicker: React.FC<BookmarkPickerProps> = ({ busy, onOpen }) => {
+  const [folders, setFolders] = useState<BookmarkFolder[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    listBookmarkFolders().then(setFolders);
+  }, []);
+
+  const needle = query.trim().toLowerCase();
+  const visible = folders.filter(f => f.linkCount > 0 && (!needle || f.path.toLowerCase().includes(needle)));
+
+  if (!folders.length) {
+    return <p className="text-xs text-slate-500">No bookmark folders found.</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="relative">
+        <Search size={14} className="absolute left-2.5 top-2 text-slate-500" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search folders"
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg pl-8 pr-3 py-1 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+      </div>
+      <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+        {visible.length === 0 && <p className="text-xs text-slate-500">No matching folders with bookmarks.</p>}
+        {visible.map(folder => (
+          <div key={folder.id} className="flex items-center gap-2 p-1.5 rounded border border-slate-700 bg-slate-800/50">
+            <div className="flex-1 overflow-hidden">
+              <p className="text-xs text-slate-300 truncate">{folder.title}</p>
+              <p className="text-[10px] text-slate-500 truncate">{folder.path}</p>
+            </div>
+            <span className="text-xs text-slate-500 shrink-0">{folder.linkCount}</span>
+            <button
+              onClick={() => onOpen(folder)}
+              disabled={busy}
+              className="flex items-center gap-1 text-xs text-slate-300 hover:text-white disabled:opacity-50 shrink-0"
+              title="Open these bookmarks as a group"
+            >
+              <FolderOpen size={14} />
+              Open
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BookmarkPicker;
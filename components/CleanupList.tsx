@@ -1,12 +1,14 @@
 import React, { useMemo } from 'react';
-import { CleanupCandidate, Tab } from '../types';
-import { Layers } from 'lucide-react';
+import { CleanupAction, CleanupCandidate, DuplicateRule, ProtectionReason, Tab } from '../types';
+import { Layers, Shield, MoonStar } from 'lucide-react';
+import { formatDuration } from '../services/cleanupService';
 
 interface CleanupListProps {
   candidates: CleanupCandidate[];
   allTabs: Tab[];
-  onToggle: (tabId: number, selected: boolean) => void;
-  selectedIds: Set<number>;
+  actions: Map<number, CleanupAction>;
+  onSetAction: (tabId: number, action: CleanupAction) => void;
+  onDiscardAllStale: () => void;
 }
 
 function formatIdle(lastAccessed: number): string {
@@ -27,7 +29,28 @@ const REASON_BADGE: Record<CleanupCandidate['reason'], { label: string; classNam
   'stale+duplicate': { label: 'STALE + DUPE', className: 'bg-red-900/40 text-red-400 border-red-800' },
 };
 
-const CleanupList: React.FC<CleanupListProps> = ({ candidates, allTabs, onToggle, selectedIds }) => {
+const DUPLICATE_RULE_LABEL: Record<DuplicateRule, string> = {
+  'exact-url': 'same URL',
+  'canonical-url': 'same URL after normalizing',
+  'fragment-only': 'same URL, different #fragment',
+  'same-path': 'same page, different query or anchor',
+  'same-title': 'same title',
+};
+
+const PROTECTION_LABEL: Record<ProtectionReason, string> = {
+  active: 'active tab',
+  audible: 'playing audio',
+  grouped: 'in a group',
+  'never-close': 'never-close list',
+};
+
+const ACTION_OPTIONS: { action: CleanupAction; label: string; activeClass: string }[] = [
+  { action: 'close', label: 'Close', activeClass: 'bg-red-600 text-white' },
+  { action: 'discard', label: 'Discard', activeClass: 'bg-indigo-600 text-white' },
+  { action: 'keep', label: 'Keep', activeClass: 'bg-slate-600 text-white' },
+];
+
+const CleanupList: React.FC<CleanupListProps> = ({ candidates, allTabs, actions, onSetAction, onDiscardAllStale }) => {
   const tabById = useMemo(
     () => new Map<number, Tab>(allTabs.map(t => [t.id, t])),
     [allTabs]
@@ -41,31 +64,38 @@ const CleanupList: React.FC<CleanupListProps> = ({ candidates, allTabs, onToggle
     );
   }
 
+  const hasStale = candidates.some(c => c.reason === 'stale' && !c.protectedBy);
+
   return (
     <div className="p-3 space-y-2">
+      {hasStale && (
+        <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+          <span>Discarded tabs stay open but stop using memory.</span>
+          <button
+            onClick={onDiscardAllStale}
+            className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 shrink-0"
+          >
+            <MoonStar size={12} />
+            Discard all stale
+          </button>
+        </div>
+      )}
       {candidates.map(candidate => {
         const tab = tabById.get(candidate.tabId);
         const keeperTab = candidate.duplicateOfTabId ? tabById.get(candidate.duplicateOfTabId) : undefined;
         const badge = REASON_BADGE[candidate.reason];
-        const isSelected = selectedIds.has(candidate.tabId);
+        const isProtected = !!candidate.protectedBy;
+        const action = isProtected ? 'keep' : actions.get(candidate.tabId) ?? 'keep';
 
         return (
           <div
             key={candidate.tabId}
-            className={`flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer ${
-              isSelected
+            className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${
+              action !== 'keep'
                 ? 'border-slate-600 bg-slate-800/60'
-                : 'border-slate-700/50 bg-slate-800/20 opacity-50'
+                : 'border-slate-700/50 bg-slate-800/20'
             }`}
-            onClick={() => onToggle(candidate.tabId, !isSelected)}
           >
-            <input
-              type="checkbox"
-              checked={isSelected}
-              onChange={e => onToggle(candidate.tabId, e.target.checked)}
-              onClick={e => e.stopPropagation()}
-              className="mt-0.5 accent-red-500 shrink-0"
-            />
             <div className="flex-1 overflow-hidden">
               <div className="flex items-center gap-2 mb-1">
                 {tab?.favIconUrl ? (
@@ -77,16 +107,43 @@ const CleanupList: React.FC<CleanupListProps> = ({ candidates, allTabs, onToggle
               </div>
               <p className="text-xs text-slate-500 truncate mb-1.5">{tab?.url}</p>
               <div className="flex items-center gap-2 flex-wrap">
+                {candidate.protectedBy && (
+                  <span className="flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded border bg-emerald-900/40 text-emerald-400 border-emerald-800">
+                    <Shield size={10} />
+                    KEPT: {PROTECTION_LABEL[candidate.protectedBy].toUpperCase()}
+                  </span>
+                )}
                 <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded border ${badge.className}`}>
                   {badge.label}
                 </span>
                 {(candidate.reason === 'stale' || candidate.reason === 'stale+duplicate') && (
-                  <span className="text-[10px] text-slate-500">{formatIdle(candidate.lastAccessed)}</span>
+                  <span className="text-[10px] text-slate-500">
+                    {formatIdle(candidate.lastAccessed)}
+                    {candidate.staleThresholdMs && ` (limit ${formatDuration(candidate.staleThresholdMs)})`}
+                  </span>
+                )}
+                {candidate.duplicateRule && (
+                  <span className="text-[10px] text-slate-400">{DUPLICATE_RULE_LABEL[candidate.duplicateRule]}</span>
                 )}
                 {keeperTab && (
                   <span className="text-[10px] text-slate-500 max-w-[120px] truncate">keeping: {keeperTab.title}</span>
                 )}
               </div>
+              {!isProtected && (
+                <div className="flex mt-2 rounded-md border border-slate-700 overflow-hidden w-fit">
+                  {ACTION_OPTIONS.map(option => (
+                    <button
+                      key={option.action}
+                      onClick={() => onSetAction(candidate.tabId, option.action)}
+                      className={`px-2 py-0.5 text-[10px] font-medium transition-colors ${
+                        action === option.action ? option.activeClass : 'text-slate-400 hover:bg-slate-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         );
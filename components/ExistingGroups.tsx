@@ -0,0 +1,61 @@
+import React from 'react';
+import { ExistingGroup, ExistingGroupMode } from '../types';
+import { Lock } from 'lucide-react';
+import { colorDotClass } from '../services/groupColors';
+
+interface ExistingGroupsProps {
+  groups: ExistingGroup[];
+  modeOf: (group: ExistingGroup) => ExistingGroupMode;
+  isUserMade: (group: ExistingGroup) => boolean;
+  onChangeMode: (group: ExistingGroup, mode: ExistingGroupMode) => void;
+  showColors: boolean;
+}
+
+// Groups that were already open before this run. The chosen mode is remembered
+// per group and also used by scheduled runs.
+const ExistingGroups: React.FC<ExistingGroupsProps> = ({ groups, modeOf, isUserMade, onChangeMode, showColors }) => {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="mb-3 border border-dashed border-slate-600 rounded-lg overflow-hidden">
+      <div className="flex items-center gap-3 p-3">
+        <span className="font-semibold text-sm text-slate-400">Existing groups</span>
+        <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded-full">
+          {groups.length}
+        </span>
+        <span className="text-[10px] text-slate-500 flex-1">locked groups are left untouched</span>
+      </div>
+      <div className="border-t border-slate-700 bg-slate-900/30">
+        {groups.map(group => {
+          const mode = modeOf(group);
+          return (
+            <div key={group.id} className="flex items-center gap-3 px-4 py-2 overflow-hidden">
+              {showColors && <div className={`w-3 h-3 rounded-full shrink-0 ${colorDotClass(group.color)}`} />}
+              <span className="text-xs text-slate-300 truncate">{group.title}</span>
+              <span className="text-[10px] text-slate-500 shrink-0">{group.tabIds.length}</span>
+              {isUserMade(group) && (
+                <span className="text-[9px] font-semibold px-1 rounded border bg-slate-800 text-slate-400 border-slate-600 shrink-0">
+                  YOURS
+                </span>
+              )}
+              <span className="flex-1" />
+              {mode === 'lock' && <Lock size={12} className="text-slate-500 shrink-0" />}
+              <select
+                value={mode}
+                onChange={(e) => onChangeMode(group, e.target.value as ExistingGroupMode)}
+                className="bg-slate-800 border border-slate-600 rounded text-[10px] text-slate-300 px-1 py-0.5 shrink-0"
+                aria-label={`Mode for ${group.title}`}
+              >
+                <option value="lock">Locked</option>
+                <option value="merge">Merge target</option>
+                <option value="dissolve">Dissolve</option>
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExistingGroups;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  label?: string;
+  onExport: (format: ExportFormat) => void;
+  onSaveBookmarks?: () => void;  // adds an entry that writes into the browser's bookmarks instead of a file
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'json', label: 'JSON (re-importable)' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'Bookmarks HTML' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ label = 'Export', onExport, onSaveBookmarks }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        <Download size={14} />
+        {label}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 z-10 w-44 bg-slate-800 border border-slate-600 rounded-lg shadow-lg overflow-hidden">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => { onExport(format.id); setIsOpen(false); }}
+              className="block w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-slate-700"
+            >
+              {format.label}
+            </button>
+          ))}
+          {onSaveBookmarks && (
+            <button
+              onClick={() => { onSaveBookmarks(); setIsOpen(false); }}
+              className="block w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 border-t border-slate-700"
+            >
+              Save as bookmark folders
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
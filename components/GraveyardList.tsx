@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, RotateCcw, Trash2, Search, Layers } from 'lucide-react';
+import { GraveyardEntry, ClosedTabReason } from '../types';
+
+interface GraveyardListProps {
+  entries: GraveyardEntry[];
+  busy: boolean;
+  onReopen: (ids: string[]) => void;
+  onDelete: (ids: string[]) => void;
+  onClear: () => void;
+  onBack: () => void;
+}
+
+const REASON_LABEL: Record<ClosedTabReason, string> = {
+  stale: 'Stale',
+  duplicate: 'Duplicate',
+  'stale+duplicate': 'Stale + dupe',
+  stashed: 'Stashed',
+  manual: 'Other',
+};
+
+const AGE_FILTERS: { label: string; ms: number }[] = [
+  { label: 'Any time', ms: Infinity },
+  { label: 'Last hour', ms: 60 * 60 * 1000 },
+  { label: 'Today', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+function formatClosedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+const GraveyardList: React.FC<GraveyardListProps> = ({ entries, busy, onReopen, onDelete, onClear, onBack }) => {
+  const [query, setQuery] = useState('');
+  const [reason, setReason] = useState<ClosedTabReason | 'all'>('all');
+  const [maxAgeMs, setMaxAgeMs] = useState(Infinity);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const cutoff = Date.now() - maxAgeMs;
+    return entries.filter(e =>
+      (reason === 'all' || e.reason === reason) &&
+      e.closedAt >= cutoff &&
+      (!needle || `${e.title} ${e.url} ${e.groupName ?? ''}`.toLowerCase().includes(needle))
+    );
+  }, [entries, query, reason, maxAgeMs]);
+
+  // Selection only counts entries that are still visible under the filters
+  const selectedVisible = visible.filter(e => selectedIds.has(e.id)).map(e => e.id);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const runOnSelection = (action: (ids: string[]) => void) => {
+    action(selectedVisible);
+    setSelectedIds(new Set());
+  };
+
+  const selectClass = 'bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 bg-slate-800/30 border-b border-slate-700 space-y-3">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors">
+            <ArrowLeft size={18} />
+          </button>
+          <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider flex-1">Recently Closed</h2>
+          {entries.length > 0 && (
+            <button
+              onClick={onClear}
+              disabled={busy}
+              className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-2.5 text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, URL or group"
+            className="w-full bg-slate-800 border border-slate-600 rounded-lg pl-8 pr-3 py-1.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select value={reason} onChange={(e) => setReason(e.target.value as ClosedTabReason | 'all')} className={selectClass}>
+            <option value="all">All reasons</option>
+            {Object.entries(REASON_LABEL).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select value={String(maxAgeMs)} onChange={(e) => setMaxAgeMs(Number(e.target.value))} className={selectClass}>
+            {AGE_FILTERS.map(f => (
+              <option key={f.label} value={String(f.ms)}>{f.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-1.5">
+        {visible.length === 0 ? (
+          <p className="text-xs text-slate-500 text-center p-6">
+            {entries.length === 0 ? 'Tabs closed by cleanup or stash show up here.' : 'No closed tabs match these filters.'}
+          </p>
+        ) : (
+          visible.map(entry => (
+            <div
+              key={entry.id}
+              className="flex items-start gap-3 p-2 rounded-lg border border-slate-700 bg-slate-800/50 cursor-pointer"
+              onClick={() => toggle(entry.id)}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(entry.id)}
+                onChange={() => toggle(entry.id)}
+                onClick={e => e.stopPropagation()}
+                className="mt-0.5 accent-blue-500 shrink-0"
+              />
+              <div className="flex-1 overflow-hidden">
+                <div className="flex items-center gap-2">
+                  {entry.favIconUrl ? (
+                    <img src={entry.favIconUrl} alt="" className="w-4 h-4 shrink-0" onError={e => e.currentTarget.style.display = 'none'} />
+                  ) : (
+                    <Layers size={14} className="text-slate-500 shrink-0" />
+                  )}
+                  <span className="text-xs font-medium text-slate-200 truncate">{entry.title}</span>
+                </div>
+                <p className="text-xs text-slate-500 truncate">{entry.url}</p>
+                <p className="text-[10px] text-slate-500 mt-0.5">
+                  {REASON_LABEL[entry.reason]} · {formatClosedAt(entry.closedAt)}
+                  {entry.groupName && ` · from ${entry.groupName}`}
+                </p>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onReopen([entry.id]); }}
+                disabled={busy}
+                className="text-slate-400 hover:text-green-400 disabled:opacity-50 shrink-0"
+                aria-label="Reopen"
+              >
+                <RotateCcw size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {selectedVisible.length > 0 && (
+        <div className="p-4 border-t border-slate-700 bg-slate-800 flex gap-3">
+          <button
+            onClick={() => runOnSelection(onDelete)}
+            disabled={busy}
+            className="py-2 px-4 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            <Trash2 size={16} />
+            Forget
+          </button>
+          <button
+            onClick={() => runOnSelection(onReopen)}
+            disabled={busy}
+            className="flex-1 py-2 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <RotateCcw size={16} />
+            Reopen {selectedVisible.length} Tab{selectedVisible.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraveyardList;
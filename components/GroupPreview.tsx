@@ -1,67 +1,211 @@
 import React, { useState } from 'react';
-import { Tab, TabGroupProposal } from '../types';
-import { ChevronDown, ChevronRight, X, Layers } from 'lucide-react';
+import { Tab, ReviewGroup, TabGroupColor } from '../types';
+import { ChevronDown, ChevronRight, X, Layers, Pencil, Scissors, Trash2 } from 'lucide-react';
+import { TAB_DRAG_TYPE } from '../services/reviewService';
+import { colorDotClass } from '../services/groupColors';
 
 interface GroupPreviewProps {
-  proposal: TabGroupProposal;
+  proposal: ReviewGroup;
   allTabs: Tab[];
-  onRemoveTab: (tabId: number, groupName: string) => void;
+  otherGroups: ReviewGroup[];  // offered as merge targets
+  onRemoveTab: (tabId: number) => void;
+  onMoveTab: (tabId: number, groupId: string) => void;
+  onRename: (groupId: string, name: string) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onSplit: (groupId: string, tabIds: number[]) => void;
+  onDelete: (groupId: string) => void;
   showColors: boolean;
+  ruleTabIds?: Set<number>;  // tabs placed by a user rule, tagged in the list
+  palette?: TabGroupColor[];  // colors offered for new groups; omit to make the color fixed
+  onChangeColor?: (groupId: string, color: TabGroupColor) => void;
+  windowLabels?: Map<number, string>;  // set when tabs come from more than one window
 }
 
-const colorMap: Record<string, string> = {
-  grey: 'bg-slate-500',
-  blue: 'bg-blue-500',
-  red: 'bg-red-500',
-  yellow: 'bg-yellow-500',
-  green: 'bg-green-500',
-  pink: 'bg-pink-500',
-  purple: 'bg-purple-500',
-  cyan: 'bg-cyan-500',
-};
-
-const GroupPreview: React.FC<GroupPreviewProps> = ({ proposal, allTabs, onRemoveTab, showColors }) => {
+const GroupPreview: React.FC<GroupPreviewProps> = ({
+  proposal, allTabs, otherGroups, onRemoveTab, onMoveTab, onRename, onMerge, onSplit, onDelete,
+  showColors, ruleTabIds, palette, onChangeColor, windowLabels,
+}) => {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [pickingColor, setPickingColor] = useState(false);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [splitIds, setSplitIds] = useState<Set<number> | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  // Existing groups are only extended, so their name and color can't change here
+  const isNew = !proposal.existingGroupId;
+  const canEditColor = isNew && !!palette && !!onChangeColor;
 
   // Filter tabs that belong to this group
   const groupTabs = allTabs.filter(t => proposal.tabIds.includes(t.id));
 
-  if (groupTabs.length === 0) return null;
+  const commitName = () => {
+    if (editingName !== null && editingName.trim()) onRename(proposal.id, editingName.trim());
+    setEditingName(null);
+  };
+
+  const toggleSplitTab = (tabId: number) => {
+    setSplitIds(prev => {
+      const next = new Set(prev);
+      if (next.has(tabId)) next.delete(tabId); else next.add(tabId);
+      return next;
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const tabId = Number(e.dataTransfer.getData(TAB_DRAG_TYPE));
+    if (tabId) onMoveTab(tabId, proposal.id);
+  };
 
   return (
-    <div className="mb-3 border border-slate-700 rounded-lg overflow-hidden bg-slate-800/50">
-      <div 
+    <div
+      className={`mb-3 border rounded-lg overflow-hidden bg-slate-800/50 ${isDragOver ? 'border-blue-500' : 'border-slate-700'}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(TAB_DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div
         className="flex items-center justify-between p-3 cursor-pointer hover:bg-slate-800 transition-colors"
         onClick={() => setIsExpanded(!isExpanded)}
       >
-        <div className="flex items-center gap-3">
-          {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        <div className="flex items-center gap-3 overflow-hidden">
+          {isExpanded ? <ChevronDown size={16} className="shrink-0" /> : <ChevronRight size={16} className="shrink-0" />}
           {showColors && (
-            <div className={`w-3 h-3 rounded-full ${colorMap[proposal.color] || 'bg-slate-500'}`} />
+            canEditColor ? (
+              <button
+                onClick={(e) => { e.stopPropagation(); setPickingColor(!pickingColor); }}
+                className={`w-3 h-3 rounded-full shrink-0 ring-offset-1 ring-offset-slate-800 hover:ring-2 hover:ring-slate-400 ${colorDotClass(proposal.color)}`}
+                aria-label="Change color"
+              />
+            ) : (
+              <div className={`w-3 h-3 rounded-full shrink-0 ${colorDotClass(proposal.color)}`} />
+            )
           )}
-          <span className="font-semibold text-sm">{proposal.groupName}</span>
-          <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded-full">
+          {editingName !== null ? (
+            <input
+              autoFocus
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={commitName}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitName();
+                if (e.key === 'Escape') setEditingName(null);
+              }}
+              className="bg-slate-900 border border-blue-500 rounded px-1.5 py-0.5 text-sm text-white focus:outline-none min-w-0"
+            />
+          ) : (
+            <span className="font-semibold text-sm truncate">{proposal.groupName}</span>
+          )}
+          <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded-full shrink-0">
             {groupTabs.length}
           </span>
         </div>
+        {proposal.existingGroupId ? (
+          <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded border bg-slate-800 text-slate-400 border-slate-600 shrink-0">
+            ADDED TO EXISTING
+          </span>
+        ) : (
+          <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded border bg-green-900/40 text-green-400 border-green-800 shrink-0">
+            NEW GROUP
+          </span>
+        )}
       </div>
 
+      {pickingColor && canEditColor && (
+        <div className="flex items-center gap-1.5 px-3 pb-2">
+          {palette!.map(color => (
+            <button
+              key={color}
+              onClick={() => { onChangeColor!(proposal.id, color); setPickingColor(false); }}
+              className={`w-4 h-4 rounded-full ${colorDotClass(color)} ${color === proposal.color ? 'ring-2 ring-white' : ''}`}
+              aria-label={color}
+            />
+          ))}
+        </div>
+      )}
+
       {isExpanded && (
         <div className="border-t border-slate-700 bg-slate-900/30">
+          <div className="flex items-center gap-3 px-4 py-1.5 border-b border-slate-800 text-[10px] text-slate-400">
+            {isNew && (
+              <button onClick={() => setEditingName(proposal.groupName)} className="flex items-center gap-1 hover:text-white">
+                <Pencil size={10} /> Rename
+              </button>
+            )}
+            {groupTabs.length > 1 && (
+              <button
+                onClick={() => setSplitIds(splitIds ? null : new Set())}
+                className={`flex items-center gap-1 hover:text-white ${splitIds ? 'text-blue-400' : ''}`}
+              >
+                <Scissors size={10} /> Split
+              </button>
+            )}
+            {otherGroups.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => onMerge(proposal.id, e.target.value)}
+                className="bg-slate-800 border border-slate-600 rounded text-[10px] text-slate-300 px-1 py-0.5 max-w-[110px]"
+                aria-label="Merge into"
+              >
+                <option value="" disabled>Merge into…</option>
+                {otherGroups.map(g => (
+                  <option key={g.id} value={g.id}>{g.groupName}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={() => onDelete(proposal.id)} className="flex items-center gap-1 hover:text-red-400 ml-auto">
+              <Trash2 size={10} /> Ungroup
+            </button>
+          </div>
+
+          {groupTabs.length === 0 && (
+            <p className="px-4 py-3 text-xs text-slate-500 text-center">Drag tabs here</p>
+          )}
           {groupTabs.map(tab => (
-            <div key={tab.id} className="flex items-center justify-between px-4 py-2 hover:bg-slate-800/50 group">
+            <div
+              key={tab.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(TAB_DRAG_TYPE, String(tab.id));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              className="flex items-center justify-between px-4 py-2 hover:bg-slate-800/50 group cursor-grab"
+            >
               <div className="flex items-center gap-3 overflow-hidden">
+                {splitIds && (
+                  <input
+                    type="checkbox"
+                    checked={splitIds.has(tab.id)}
+                    onChange={() => toggleSplitTab(tab.id)}
+                    className="accent-blue-500 shrink-0"
+                  />
+                )}
                 {tab.favIconUrl ? (
                   <img src={tab.favIconUrl} alt="" className="w-4 h-4 shrink-0" onError={(e) => e.currentTarget.style.display = 'none'} />
                 ) : (
                   <Layers size={14} className="text-slate-500 shrink-0" />
                 )}
                 <span className="text-xs text-slate-300 truncate">{tab.title}</span>
+                {ruleTabIds?.has(tab.id) && (
+                  <span className="text-[9px] font-semibold px-1 rounded border bg-blue-900/40 text-blue-400 border-blue-800 shrink-0">
+                    RULE
+                  </span>
+                )}
+                {windowLabels && tab.windowId !== undefined && windowLabels.has(tab.windowId) && (
+                  <span className="text-[9px] font-semibold px-1 rounded border bg-slate-800 text-slate-400 border-slate-600 shrink-0">
+                    {windowLabels.get(tab.windowId)}
+                  </span>
+                )}
               </div>
-              <button 
+              <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  onRemoveTab(tab.id, proposal.groupName);
+                  onRemoveTab(tab.id);
                 }}
                 className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity p-1"
                 aria-label="Remove from group"
@@ -70,6 +214,21 @@ const GroupPreview: React.FC<GroupPreviewProps> = ({ proposal, allTabs, onRemove
               </button>
             </div>
           ))}
+
+          {splitIds && (
+            <div className="flex items-center justify-end gap-3 px-4 py-2 border-t border-slate-800">
+              <button onClick={() => setSplitIds(null)} className="text-xs text-slate-400 hover:text-white">
+                Cancel
+              </button>
+              <button
+                onClick={() => { onSplit(proposal.id, [...splitIds]); setSplitIds(null); }}
+                disabled={splitIds.size === 0 || splitIds.size === groupTabs.length}
+                className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                Move {splitIds.size} to a new group
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
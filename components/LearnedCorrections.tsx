@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { LearnedCorrection } from '../types';
+import { loadCorrections, deleteCorrection, clearCorrections } from '../services/learningService';
+
+// Edits apply immediately, independent of the Settings save button
+const LearnedCorrections: React.FC = () => {
+  const [corrections, setCorrections] = useState<LearnedCorrection[]>([]);
+
+  useEffect(() => {
+    loadCorrections().then(setCorrections);
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteCorrection(id);
+    setCorrections(await loadCorrections());
+  };
+
+  const handleClear = async () => {
+    await clearCorrections();
+    setCorrections([]);
+  };
+
+  if (!corrections.length) {
+    return <p className="text-xs text-slate-500">Nothing learned yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+        {corrections.map(c => (
+          <div key={c.id} className="flex items-center gap-2 p-1.5 rounded border border-slate-700 bg-slate-800/50">
+            <div className="flex-1 overflow-hidden">
+              <p className="text-xs text-slate-300 truncate">
+                {c.domain} → {c.groupName ?? <span className="text-slate-500">not {c.proposedGroup}</span>}
+              </p>
+              <p className="text-[10px] text-slate-500 truncate">
+                {c.title}{c.count > 1 && ` · ${c.count}×`}
+              </p>
+            </div>
+            <button
+              onClick={() => handleDelete(c.id)}
+              className="text-slate-400 hover:text-red-400 shrink-0"
+              aria-label="Forget correction"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={handleClear} className="text-xs text-slate-400 hover:text-red-400">
+        Clear all
+      </button>
+    </div>
+  );
+};
+
+export default LearnedCorrections;
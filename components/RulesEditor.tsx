@@ -0,0 +1,108 @@
+import React from 'react';
+import { Plus, Trash2, ArrowUp } from 'lucide-react';
+import { GroupingRule, RuleMatchType, TabGroupColor } from '../types';
+import { newRule } from '../services/rulesService';
+import { GROUP_COLORS } from '../services/groupColors';
+
+interface RulesEditorProps {
+  rules: GroupingRule[];
+  onChange: (rules: GroupingRule[]) => void;
+}
+
+const MATCH_LABEL: Record<RuleMatchType, string> = {
+  url: 'URL',
+  title: 'Title',
+  domain: 'Domain',
+};
+
+const MATCH_PLACEHOLDER: Record<RuleMatchType, string> = {
+  url: 'github.com/our-org/*  or  /regex/',
+  title: 'standup|retro',
+  domain: '*.atlassian.net',
+};
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ rules, onChange }) => {
+  const update = (id: string, patch: Partial<GroupingRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const moveUp = (index: number) => {
+    const next = [...rules];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  const selectClass = 'bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500';
+  const textClass = 'flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="p-2 rounded-lg border border-slate-700 bg-slate-800/50 space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={rule.matchType}
+              onChange={(e) => update(rule.id, { matchType: e.target.value as RuleMatchType })}
+              className={selectClass}
+            >
+              {Object.entries(MATCH_LABEL).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={rule.pattern}
+              onChange={(e) => update(rule.id, { pattern: e.target.value })}
+              placeholder={MATCH_PLACEHOLDER[rule.matchType]}
+              className={`${textClass} font-mono`}
+            />
+            <button
+              onClick={() => moveUp(index)}
+              disabled={index === 0}
+              className="text-slate-400 hover:text-white disabled:opacity-30"
+              aria-label="Move rule up"
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="text-slate-400 hover:text-red-400"
+              aria-label="Remove rule"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">→</span>
+            <input
+              type="text"
+              value={rule.groupName}
+              onChange={(e) => update(rule.id, { groupName: e.target.value })}
+              placeholder="Group name"
+              className={textClass}
+            />
+            <select
+              value={rule.color}
+              onChange={(e) => update(rule.id, { color: e.target.value as TabGroupColor })}
+              className={selectClass}
+            >
+              {GROUP_COLORS.map(color => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...rules, newRule()])}
+        className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+      >
+        <Plus size={12} />
+        Add rule
+      </button>
+    </div>
+  );
+};
+
+export default RulesEditor;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Schedule, ScheduledTask } from '../types';
+import { newSchedule, WEEKDAY_LABELS } from '../services/scheduleService';
+
+interface ScheduleEditorProps {
+  schedules: Schedule[];
+  onChange: (schedules: Schedule[]) => void;
+}
+
+const TASK_LABEL: Record<ScheduledTask, string> = {
+  cleanup: 'Quick Cleanup',
+  organize: 'Organize ungrouped tabs',
+};
+
+const INTERVAL_OPTIONS = [30, 60, 120, 240, 480, 720, 1440];
+
+const formatInterval = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : minutes === 60 ? 'hour' : `${minutes / 60} hours`;
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedules, onChange }) => {
+  const update = (id: string, patch: Partial<Schedule>) =>
+    onChange(schedules.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  const toggleDay = (schedule: Schedule, day: number) =>
+    update(schedule.id, {
+      days: schedule.days.includes(day)
+        ? schedule.days.filter(d => d !== day)
+        : [...schedule.days, day].sort(),
+    });
+
+  const selectClass = 'bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-2">
+      {schedules.map(schedule => (
+        <div key={schedule.id} className={`p-2 rounded-lg border border-slate-700 bg-slate-800/50 space-y-2 ${schedule.enabled ? '' : 'opacity-60'}`}>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={schedule.enabled}
+              onChange={(e) => update(schedule.id, { enabled: e.target.checked })}
+              className="accent-blue-500"
+              aria-label="Enabled"
+            />
+            <select
+              value={schedule.task}
+              onChange={(e) => update(schedule.id, { task: e.target.value as ScheduledTask })}
+              className={`${selectClass} flex-1`}
+            >
+              {Object.entries(TASK_LABEL).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(schedules.filter(s => s.id !== schedule.id))}
+              className="text-slate-400 hover:text-red-400"
+              aria-label="Remove schedule"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <select
+              value={schedule.mode}
+              onChange={(e) => update(schedule.id, { mode: e.target.value as Schedule['mode'] })}
+              className={selectClass}
+            >
+              <option value="interval">Every</option>
+              <option value="weekly">On</option>
+            </select>
+            {schedule.mode === 'interval' ? (
+              <select
+                value={schedule.intervalMinutes}
+                onChange={(e) => update(schedule.id, { intervalMinutes: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {INTERVAL_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{formatInterval(minutes)}</option>
+                ))}
+              </select>
+            ) : (
+              <>
+                <div className="flex gap-0.5">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      onClick={() => toggleDay(schedule, day)}
+                      className={`w-6 py-0.5 rounded text-[10px] font-medium ${
+                        schedule.days.includes(day) ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'
+                      }`}
+                    >
+                      {label.charAt(0)}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-xs text-slate-500">at</span>
+                <input
+                  type="time"
+                  value={schedule.time}
+                  onChange={(e) => update(schedule.id, { time: e.target.value })}
+                  className={selectClass}
+                />
+              </>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={schedule.requireConfirmation}
+              onChange={(e) => update(schedule.id, { requireConfirmation: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Require confirmation
+          </label>
+
+          {schedule.task === 'organize' && (
+            <p className="text-xs text-slate-500">
+              Uses the grouping engine above. With Local only, or when the AI request fails and local fallback is on, tabs are grouped locally.
+            </p>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...schedules, newSchedule(schedules.length ? 'organize' : 'cleanup')])}
+        className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+      >
+        <Plus size={12} />
+        Add schedule
+      </button>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -1,6 +1,16 @@
-import React, { useState } from 'react';
-import { Save, ArrowLeft, Eye, EyeOff } from 'lucide-react';
-import { Settings as SettingsType, DEFAULT_MODEL } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Save, ArrowLeft, Eye, EyeOff, ChevronDown, ChevronRight } from 'lucide-react';
+import { Settings as SettingsType, DEFAULT_MODEL, ProviderConfig, ProviderId, AuthHeaderStyle, ResponseFormatMode, GroupingEngine, Schedule, GroupingRule, PromptSettings, WindowScope, WindowPlacement, GroupOrder, TabOrder, BookmarkFolder } from '../types';
+import { PROVIDER_PRESETS, promptFormatInstructions } from '../services/providerService';
+import { buildSystemPrompt, parsePalette, formatPalette, parseGroupCount } from '../services/promptService';
+import { parsePatternList } from '../services/urlPatterns';
+import {
+  parseSiteIgnoredParams, formatSiteIgnoredParams, parseDuration, formatDuration, parseDomainThresholds, formatDomainThresholds,
+} from '../services/cleanupService';
+import ScheduleEditor from './ScheduleEditor';
+import RulesEditor from './RulesEditor';
+import LearnedCorrections from './LearnedCorrections';
+import { listBookmarkFolders } from '../services/bookmarkService';
 
 interface SettingsProps {
   settings: SettingsType;
@@ -11,12 +21,121 @@ interface SettingsProps {
 const Settings: React.FC<SettingsProps> = ({ settings, onSave, onBack }) => {
   const [apiKey, setApiKey] = useState(settings.apiKey);
   const [model, setModel] = useState(settings.model);
+  const [provider, setProvider] = useState<ProviderConfig>(settings.provider);
+  const [incrementalOrganize, setIncrementalOrganize] = useState(settings.incrementalOrganize);
+  const [groupingEngine, setGroupingEngine] = useState<GroupingEngine>(settings.groupingEngine);
+  const [localFallback, setLocalFallback] = useState(settings.localFallback);
+  const [stripQueryStrings, setStripQueryStrings] = useState(settings.privacy.stripQueryStrings);
+  const [stripFragments, setStripFragments] = useState(settings.privacy.stripFragments);
+  const [maskedDomains, setMaskedDomains] = useState(settings.privacy.maskedDomains.join('\n'));
+  const [hiddenTitleDomains, setHiddenTitleDomains] = useState(settings.privacy.hiddenTitleDomains.join('\n'));
+  const [denylist, setDenylist] = useState(settings.privacy.denylist.join('\n'));
+  const [nearDuplicates, setNearDuplicates] = useState(settings.cleanup.nearDuplicates);
+  const [siteIgnoredParams, setSiteIgnoredParams] = useState(formatSiteIgnoredParams(settings.cleanup.siteIgnoredParams));
+  const [staleThreshold, setStaleThreshold] = useState(formatDuration(settings.cleanup.staleThresholdMs));
+  const [domainThresholds, setDomainThresholds] = useState(formatDomainThresholds(settings.cleanup.domainThresholds));
+  const [neverClose, setNeverClose] = useState(settings.cleanup.neverClose.join('\n'));
+  const [protectAudible, setProtectAudible] = useState(settings.cleanup.protectAudible);
+  const [protectActive, setProtectActive] = useState(settings.cleanup.protectActive);
+  const [protectGrouped, setProtectGrouped] = useState(settings.cleanup.protectGrouped);
+  const [graveyardMaxAge, setGraveyardMaxAge] = useState(formatDuration(settings.graveyard.maxAgeMs));
+  const [graveyardMaxEntries, setGraveyardMaxEntries] = useState(String(settings.graveyard.maxEntries));
+  const [autoAssignEnabled, setAutoAssignEnabled] = useState(settings.autoAssign.enabled);
+  const [autoAssignUseAI, setAutoAssignUseAI] = useState(settings.autoAssign.useAI);
+  const [schedules, setSchedules] = useState<Schedule[]>(settings.schedules);
+  const [rules, setRules] = useState<GroupingRule[]>(settings.rules);
+  const [promptInstructions, setPromptInstructions] = useState(settings.prompt.instructions);
+  const [minGroups, setMinGroups] = useState(settings.prompt.minGroups ? String(settings.prompt.minGroups) : '');
+  const [maxGroups, setMaxGroups] = useState(settings.prompt.maxGroups ? String(settings.prompt.maxGroups) : '');
+  const [palette, setPalette] = useState(formatPalette(settings.prompt.palette));
+  const [learnFromEdits, setLearnFromEdits] = useState(settings.prompt.learnFromEdits);
+  const [windowScope, setWindowScope] = useState<WindowScope>(settings.windows.scope);
+  const [windowPlacement, setWindowPlacement] = useState<WindowPlacement>(settings.windows.placement);
+  const [groupOrder, setGroupOrder] = useState<GroupOrder>(settings.ordering.groupOrder);
+  const [tabOrder, setTabOrder] = useState<TabOrder>(settings.ordering.tabOrder);
+  const [collapseInactive, setCollapseInactive] = useState(settings.focus.collapseInactive);
+  const [bookmarkParentId, setBookmarkParentId] = useState(settings.bookmarks.parentFolderId ?? '');
+  const [bookmarkFolders, setBookmarkFolders] = useState<BookmarkFolder[]>([]);
+  const [idleCollapseMinutes, setIdleCollapseMinutes] = useState(settings.focus.idleCollapseMinutes ? String(settings.focus.idleCollapseMinutes) : '');
+  const [showPromptPreview, setShowPromptPreview] = useState(false);
   const [showKey, setShowKey] = useState(false);
 
+  useEffect(() => {
+    listBookmarkFolders().then(setBookmarkFolders);
+  }, []);
+
+  const buildPromptSettings = (): PromptSettings => ({
+    instructions: promptInstructions.trim(),
+    minGroups: parseGroupCount(minGroups),
+    maxGroups: parseGroupCount(maxGroups),
+    palette: parsePalette(palette),
+    learnFromEdits,
+  });
+
   const handleSave = () => {
-    onSave({ apiKey: apiKey.trim(), model: model.trim() || DEFAULT_MODEL });
+    onSave({
+      ...settings,
+      apiKey: apiKey.trim(),
+      model: model.trim() || DEFAULT_MODEL,
+      provider: { ...provider, baseUrl: provider.baseUrl.trim() },
+      incrementalOrganize,
+      groupingEngine,
+      localFallback,
+      privacy: {
+        stripQueryStrings,
+        stripFragments,
+        maskedDomains: parsePatternList(maskedDomains),
+        hiddenTitleDomains: parsePatternList(hiddenTitleDomains),
+        denylist: parsePatternList(denylist),
+      },
+      cleanup: {
+        nearDuplicates,
+        siteIgnoredParams: parseSiteIgnoredParams(siteIgnoredParams),
+        staleThresholdMs: parseDuration(staleThreshold) ?? settings.cleanup.staleThresholdMs,
+        domainThresholds: parseDomainThresholds(domainThresholds),
+        neverClose: parsePatternList(neverClose),
+        protectAudible,
+        protectActive,
+        protectGrouped,
+      },
+      graveyard: {
+        maxAgeMs: parseDuration(graveyardMaxAge) ?? settings.graveyard.maxAgeMs,
+        maxEntries: Math.max(1, parseInt(graveyardMaxEntries, 10) || settings.graveyard.maxEntries),
+      },
+      schedules,
+      rules: rules.filter(r => r.pattern.trim() && r.groupName.trim()),
+      prompt: buildPromptSettings(),
+      autoAssign: {
+        enabled: autoAssignEnabled,
+        useAI: autoAssignUseAI,
+      },
+      windows: {
+        scope: windowScope,
+        placement: windowPlacement,
+      },
+      ordering: {
+        groupOrder,
+        tabOrder,
+      },
+      focus: {
+        collapseInactive,
+        // Empty or non-positive input turns idle collapsing off
+        idleCollapseMinutes: Math.max(0, parseInt(idleCollapseMinutes, 10) || 0) || null,
+      },
+      bookmarks: {
+        parentFolderId: bookmarkParentId || null,
+      },
+    });
   };
 
+  const isOpenRouter = provider.id === 'openrouter';
+  const isLocalOnly = groupingEngine === 'local';
+  const needsKey = !isLocalOnly && provider.authStyle !== 'none';
+  const staleThresholdValid = parseDuration(staleThreshold) !== null;
+  const groupCountRange = [parseGroupCount(minGroups), parseGroupCount(maxGroups)];
+  const groupCountValid = !groupCountRange[0] || !groupCountRange[1] || groupCountRange[0] <= groupCountRange[1];
+  const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 bg-slate-800/30 border-b border-slate-700 flex items-center gap-3">
@@ -29,49 +148,596 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSave, onBack }) => {
       <div className="flex-1 overflow-y-auto p-4 space-y-5">
         <div>
           <label className="block text-xs font-medium text-slate-400 mb-1.5">
-            OpenRouter API Key <span className="text-red-400">*</span>
+            Grouping
           </label>
-          <div className="relative">
-            <input
-              type={showKey ? 'text' : 'password'}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="sk-or-..."
-              className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500 pr-10"
-            />
+          <select
+            value={groupingEngine}
+            onChange={(e) => setGroupingEngine(e.target.value as GroupingEngine)}
+            className={inputClass}
+          >
+            <option value="ai">AI</option>
+            <option value="local">Local only</option>
+          </select>
+          <p className="text-xs text-slate-500 mt-1">
+            {isLocalOnly
+              ? 'Groups tabs offline by site, repository and title. No API key needed and nothing leaves the browser.'
+              : 'Sends tab titles and URLs to the AI provider below.'}
+          </p>
+          {!isLocalOnly && (
+            <label className="flex items-center gap-2 text-xs text-slate-400 mt-2">
+              <input
+                type="checkbox"
+                checked={localFallback}
+                onChange={(e) => setLocalFallback(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Group locally if the AI request fails
+            </label>
+          )}
+        </div>
+
+        {!isLocalOnly && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                AI Provider
+              </label>
+              <select
+                value={provider.id}
+                onChange={(e) => setProvider(PROVIDER_PRESETS[e.target.value as ProviderId].config)}
+                className={inputClass}
+              >
+                {Object.entries(PROVIDER_PRESETS).map(([id, preset]) => (
+                  <option key={id} value={id}>{preset.label}</option>
+                ))}
+              </select>
+              {!isOpenRouter && (
+                <p className="text-xs text-slate-500 mt-1">
+                  Any server exposing an OpenAI-compatible <code>/chat/completions</code> endpoint. Tab data stays on that server.
+                </p>
+              )}
+            </div>
+
+            {!isOpenRouter && (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                    Base URL
+                  </label>
+                  <input
+                    type="text"
+                    value={provider.baseUrl}
+                    onChange={(e) => setProvider({ ...provider, baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className={inputClass}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                      Auth header
+                    </label>
+                    <select
+                      value={provider.authStyle}
+                      onChange={(e) => setProvider({ ...provider, authStyle: e.target.value as AuthHeaderStyle })}
+                      className={inputClass}
+                    >
+                      <option value="none">None</option>
+                      <option value="bearer">Authorization: Bearer</option>
+                      <option value="api-key">api-key</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                      Structured output
+                    </label>
+                    <select
+                      value={provider.responseFormat}
+                      onChange={(e) => setProvider({ ...provider, responseFormat: e.target.value as ResponseFormatMode })}
+                      className={inputClass}
+                    >
+                      <option value="json_schema">JSON schema</option>
+                      <option value="json_object">JSON mode</option>
+                      <option value="none">Prompt only</option>
+                    </select>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {needsKey && (
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                  {isOpenRouter ? 'OpenRouter API Key' : 'API Key'} <span className="text-red-400">*</span>
+                </label>
+                <div className="relative">
+                  <input
+                    type={showKey ? 'text' : 'password'}
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder={isOpenRouter ? 'sk-or-...' : ''}
+                    className={`${inputClass} pr-10`}
+                  />
+                  <button
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 hover:text-slate-300"
+                  >
+                    {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                </div>
+                {isOpenRouter && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    Get a key at <a href="https://openrouter.ai/keys" target="_blank" rel="noopener" className="text-blue-400 hover:underline">openrouter.ai/keys</a>
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">
+                Model
+              </label>
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={DEFAULT_MODEL}
+                className={inputClass}
+              />
+              {isOpenRouter ? (
+                <p className="text-xs text-slate-500 mt-1">
+                  Any <a href="https://openrouter.ai/models" target="_blank" rel="noopener" className="text-blue-400 hover:underline">OpenRouter model</a> that supports structured output. Default: {DEFAULT_MODEL}
+                </p>
+              ) : (
+                <p className="text-xs text-slate-500 mt-1">
+                  The model name as the server knows it, e.g. <code>llama3.1</code>.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+
+        {!isLocalOnly && (
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-slate-400">
+              Prompt
+            </label>
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Custom instructions</p>
+              <textarea
+                value={promptInstructions}
+                onChange={(e) => setPromptInstructions(e.target.value)}
+                placeholder={'Group by client project\nNo emoji, names in German'}
+                rows={3}
+                className={`${inputClass} text-xs`}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-slate-500 shrink-0">Groups per run</span>
+              <input
+                type="number"
+                min={1}
+                value={minGroups}
+                onChange={(e) => setMinGroups(e.target.value)}
+                placeholder="min"
+                className={`${inputClass} ${groupCountValid ? '' : 'border-red-500'}`}
+              />
+              <span className="text-xs text-slate-500 shrink-0">to</span>
+              <input
+                type="number"
+                min={1}
+                value={maxGroups}
+                onChange={(e) => setMaxGroups(e.target.value)}
+                placeholder="max"
+                className={`${inputClass} ${groupCountValid ? '' : 'border-red-500'}`}
+              />
+            </div>
+            <p className="text-xs text-slate-500">
+              Large windows are sent in batches. The maximum then applies to the merged groups; the minimum only holds when all tabs fit in one request.
+            </p>
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Preferred colors, one theme per line</p>
+              <textarea
+                value={palette}
+                onChange={(e) => setPalette(e.target.value)}
+                placeholder={'work: blue\nshopping: yellow'}
+                rows={2}
+                className={`${inputClass} text-xs font-mono`}
+              />
+            </div>
             <button
-              onClick={() => setShowKey(!showKey)}
-              className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 hover:text-slate-300"
+              onClick={() => setShowPromptPreview(!showPromptPreview)}
+              className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
             >
-              {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              {showPromptPreview ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Preview prompt
             </button>
+            {showPromptPreview && (
+              <pre className="p-2 rounded-lg border border-slate-700 bg-slate-900 text-[10px] text-slate-400 whitespace-pre-wrap font-mono">
+                {buildSystemPrompt(buildPromptSettings(), incrementalOrganize) + promptFormatInstructions({ ...settings, provider })}
+              </pre>
+            )}
+          </div>
+        )}
+
+        {!isLocalOnly && (
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-slate-400">
+              Learned Preferences
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={learnFromEdits}
+                onChange={(e) => setLearnFromEdits(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Learn from my review edits
+            </label>
+            <p className="text-xs text-slate-500">
+              Tabs you move or remove before applying are remembered and sent as examples when similar sites are grouped again.
+            </p>
+            <LearnedCorrections />
+          </div>
+        )}
+
+        {!isLocalOnly && (
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-slate-400">
+              Privacy
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={stripQueryStrings}
+                onChange={(e) => setStripQueryStrings(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Strip query strings from URLs
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={stripFragments}
+                onChange={(e) => setStripFragments(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Strip #fragments from URLs
+            </label>
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Internal domains to mask, one per line</p>
+              <textarea
+                value={maskedDomains}
+                onChange={(e) => setMaskedDomains(e.target.value)}
+                placeholder="corp.example.com"
+                rows={2}
+                className={`${inputClass} text-xs font-mono`}
+              />
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Hide page titles on these domains</p>
+              <textarea
+                value={hiddenTitleDomains}
+                onChange={(e) => setHiddenTitleDomains(e.target.value)}
+                placeholder="mail.google.com"
+                rows={2}
+                className={`${inputClass} text-xs font-mono`}
+              />
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Never send to AI (e.g. banking, HR tools)</p>
+              <textarea
+                value={denylist}
+                onChange={(e) => setDenylist(e.target.value)}
+                placeholder={'*.mybank.com\nhr.example.com/payroll/*'}
+                rows={2}
+                className={`${inputClass} text-xs font-mono`}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Matching tabs are listed as withheld during review so you can group them yourself.
+              </p>
+            </div>
           </div>
+        )}
+
+        <div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-400">
+            <input
+              type="checkbox"
+              checked={incrementalOrganize}
+              onChange={(e) => setIncrementalOrganize(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Keep existing groups
+          </label>
           <p className="text-xs text-slate-500 mt-1">
-            Get a key at <a href="https://openrouter.ai/keys" target="_blank" rel="noopener" className="text-blue-400 hover:underline">openrouter.ai/keys</a>
+            Only organize ungrouped tabs, adding them to groups created here earlier where they fit instead of regrouping everything. Groups you made yourself only receive new tabs unless you lock or dissolve them in the review.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Windows
+          </label>
+          <select
+            value={windowScope}
+            onChange={(e) => setWindowScope(e.target.value as WindowScope)}
+            className={inputClass}
+          >
+            <option value="current">Organize this window</option>
+            <option value="all">Organize all windows</option>
+          </select>
+          <div>
+            <select
+              value={windowPlacement}
+              onChange={(e) => setWindowPlacement(e.target.value as WindowPlacement)}
+              className={inputClass}
+            >
+              <option value="in-place">Keep groups in their windows</option>
+              <option value="single-window">Move groups into this window</option>
+              <option value="window-per-group">One window per group</option>
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              A group with tabs in several windows is gathered where most of them are. Ungrouped tabs never move.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Tab Order
+          </label>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Arrange groups</p>
+            <select
+              value={groupOrder}
+              onChange={(e) => setGroupOrder(e.target.value as GroupOrder)}
+              className={inputClass}
+            >
+              <option value="none">Leave as they are</option>
+              <option value="review">As shown in review</option>
+              <option value="size">Largest first</option>
+              <option value="name">By name</option>
+              <option value="recent">Most recently used first</option>
+            </select>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Sort tabs within each group</p>
+            <select
+              value={tabOrder}
+              onChange={(e) => setTabOrder(e.target.value as TabOrder)}
+              className={inputClass}
+            >
+              <option value="none">Leave as they are</option>
+              <option value="domain">By site</option>
+              <option value="title">By title</option>
+              <option value="recent">Most recently used first</option>
+            </select>
+          </div>
+          <p className="text-xs text-slate-500">
+            When either is set, groups are laid out side by side after applying, with ungrouped tabs moved to the end. Pinned tabs stay in front.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Focus
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={collapseInactive}
+              onChange={(e) => setCollapseInactive(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Collapse every group except the current tab's
+          </label>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Collapse groups unused for (minutes)</p>
+            <input
+              type="number"
+              min={1}
+              value={idleCollapseMinutes}
+              onChange={(e) => setIdleCollapseMinutes(e.target.value)}
+              placeholder="Never"
+              className={inputClass}
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            Chrome and Edge only; Vivaldi has no way to collapse stacks. <kbd>Alt+Shift+F</kbd> or the focus button in the Stash view collapses all groups but one.
           </p>
         </div>
 
         <div>
-          <label className="block text-xs font-medium text-slate-400 mb-1.5">
-            Model
-          </label>
-          <input
-            type="text"
-            value={model}
-            onChange={(e) => setModel(e.target.value)}
-            placeholder={DEFAULT_MODEL}
-            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
-          />
+          <label className="block text-xs font-medium text-slate-400 mb-1">
+            Save Groups as Bookmarks In
+          </label>
+          <select
+            value={bookmarkParentId}
+            onChange={(e) => setBookmarkParentId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Other bookmarks</option>
+            {bookmarkFolders.map(folder => (
+              <option key={folder.id} value={folder.id}>{folder.path}</option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">
+            Each group becomes a folder named after it. Saving a group again only adds its new tabs.
+          </p>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-400">
+            <input
+              type="checkbox"
+              checked={autoAssignEnabled}
+              onChange={(e) => setAutoAssignEnabled(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Add new tabs to existing groups
+          </label>
           <p className="text-xs text-slate-500 mt-1">
-            Any <a href="https://openrouter.ai/models" target="_blank" rel="noopener" className="text-blue-400 hover:underline">OpenRouter model</a> that supports structured output. Default: {DEFAULT_MODEL}
+            New tabs join the group that tabs from the same site went to last time. Use the magnet in the Stash view to keep a group from collecting tabs.
+          </p>
+          {autoAssignEnabled && !isLocalOnly && (
+            <label className="flex items-center gap-2 text-xs text-slate-400 mt-2">
+              <input
+                type="checkbox"
+                checked={autoAssignUseAI}
+                onChange={(e) => setAutoAssignUseAI(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Ask the AI when there is no known match
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Cleanup Policy
+          </label>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Flag tabs as stale after</p>
+            <input
+              type="text"
+              value={staleThreshold}
+              onChange={(e) => setStaleThreshold(e.target.value)}
+              placeholder="2h"
+              className={`${inputClass} ${staleThresholdValid ? '' : 'border-red-500'}`}
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Use <code>m</code>, <code>h</code>, <code>d</code> or <code>w</code>, e.g. <code>30m</code> or <code>7d</code>.
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Per-site thresholds, first match wins</p>
+            <textarea
+              value={domainThresholds}
+              onChange={(e) => setDomainThresholds(e.target.value)}
+              placeholder={'docs.google.com: 7d\nnews.ycombinator.com: 4h'}
+              rows={2}
+              className={`${inputClass} text-xs font-mono`}
+            />
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Never close, one pattern per line</p>
+            <textarea
+              value={neverClose}
+              onChange={(e) => setNeverClose(e.target.value)}
+              placeholder={'open.spotify.com\ngrafana.example.com/d/*'}
+              rows={2}
+              className={`${inputClass} text-xs font-mono`}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={protectActive}
+              onChange={(e) => setProtectActive(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Keep the active tab
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={protectAudible}
+              onChange={(e) => setProtectAudible(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Keep tabs playing audio
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={protectGrouped}
+              onChange={(e) => setProtectGrouped(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Keep tabs that are already in a group
+          </label>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Remember closed tabs for</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={graveyardMaxAge}
+                onChange={(e) => setGraveyardMaxAge(e.target.value)}
+                placeholder="30d"
+                className={`${inputClass} ${parseDuration(graveyardMaxAge) !== null ? '' : 'border-red-500'}`}
+              />
+              <span className="text-xs text-slate-500 shrink-0">up to</span>
+              <input
+                type="number"
+                min={1}
+                value={graveyardMaxEntries}
+                onChange={(e) => setGraveyardMaxEntries(e.target.value)}
+                className={inputClass}
+              />
+              <span className="text-xs text-slate-500 shrink-0">tabs</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Grouping Rules
+          </label>
+          <p className="text-xs text-slate-500">
+            Matching tabs go straight to the named group before anything is sent to the grouping engine. The first matching rule wins.
+            Title patterns are regular expressions.
+          </p>
+          <RulesEditor rules={rules} onChange={setRules} />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Duplicate Detection
+          </label>
+          <p className="text-xs text-slate-500">
+            Tracking parameters, <code>www.</code>, default ports, trailing slashes and empty or text-fragment anchors are ignored when comparing URLs. Tabs that differ only in another <code>#fragment</code> are listed but start as Keep.
+          </p>
+          <div>
+            <p className="text-xs text-slate-500 mb-1">Also ignore these parameters, one site per line</p>
+            <textarea
+              value={siteIgnoredParams}
+              onChange={(e) => setSiteIgnoredParams(e.target.value)}
+              placeholder={'youtube.com: t, si\n*.example.com: sort, page'}
+              rows={2}
+              className={`${inputClass} text-xs font-mono`}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={nearDuplicates}
+              onChange={(e) => setNearDuplicates(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Flag near-duplicates
+          </label>
+          <p className="text-xs text-slate-500">
+            Same page with a different query or anchor, or the same title on the same site. These start as Keep during cleanup.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-slate-400">
+            Schedules
+          </label>
+          <p className="text-xs text-slate-500">
+            Run cleanup or organize automatically. With confirmation on, results wait for you in the popup and the icon shows a badge.
           </p>
+          <ScheduleEditor schedules={schedules} onChange={setSchedules} />
         </div>
       </div>
 
       <div className="p-4 border-t border-slate-700 bg-slate-800">
         <button
           onClick={handleSave}
-          disabled={!apiKey.trim()}
+          disabled={(needsKey && !apiKey.trim()) || !provider.baseUrl.trim() || !staleThresholdValid || !groupCountValid}
           className="w-full py-2 px-4 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors shadow-lg shadow-blue-900/20 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <Save size={16} />
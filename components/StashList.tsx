@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Archive, ArchiveRestore, Pencil, Trash2, Check, Upload, Magnet, Focus, BookmarkPlus } from 'lucide-react';
+import { ExistingGroup, StashedGroup, ExportFormat, BookmarkFolder } from '../types';
+import ExportMenu from './ExportMenu';
+import BookmarkPicker from './BookmarkPicker';
+import { colorDotClass } from '../services/groupColors';
+
+interface StashListProps {
+  groups: ExistingGroup[];
+  stickyGroups: Set<string>;  // ids of groups that accept auto-assigned tabs
+  showSticky: boolean;
+  stash: StashedGroup[];
+  busy: boolean;
+  onStash: (group: ExistingGroup) => void;
+  onToggleSticky: (group: ExistingGroup, sticky: boolean) => void;
+  onFocus: (group: ExistingGroup) => void;
+  onBookmark: (group: ExistingGroup) => Promise<void>;
+  onOpenBookmarks: (folder: BookmarkFolder) => void;
+  onRestore: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExportWindow: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  onBack: () => void;
+}
+
+const StashList: React.FC<StashListProps> = ({ groups, stickyGroups, showSticky, stash, busy, onStash, onToggleSticky, onFocus, onBookmark, onOpenBookmarks, onRestore, onRename, onDelete, onExportWindow, onImport, onBack }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
+
+  const handleBookmark = async (group: ExistingGroup) => {
+    await onBookmark(group);
+    setBookmarkedIds(prev => new Set(prev).add(group.id));
+  };
+
+  const startRename = (entry: StashedGroup) => {
+    setEditingId(entry.id);
+    setDraftName(entry.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 bg-slate-800/30 border-b border-slate-700 flex items-center gap-3">
+        <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft size={18} />
+        </button>
+        <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider flex-1">Stash</h2>
+        <label className={`flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload size={14} />
+          Import
+          <input
+            type="file"
+            accept=".json,.html,.htm,application/json,text/html"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <ExportMenu onExport={onExportWindow} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-5">
+        <div>
+          <h3 className="text-xs font-medium text-slate-400 mb-2">Groups in this window</h3>
+          {groups.length === 0 ? (
+            <p className="text-xs text-slate-500">No groups to stash yet.</p>
+          ) : (
+            <div className="space-y-1.5">
+              {groups.map(group => (
+                <div key={group.id} className="flex items-center gap-3 p-2 rounded-lg border border-slate-700 bg-slate-800/50">
+                  <div className={`w-3 h-3 rounded-full shrink-0 ${colorDotClass(group.color)}`} />
+                  <span className="text-sm flex-1 truncate">{group.title}</span>
+                  <span className="text-xs text-slate-500">{group.tabIds.length}</span>
+                  {showSticky && (
+                    <button
+                      onClick={() => onToggleSticky(group, !stickyGroups.has(group.id))}
+                      className={stickyGroups.has(group.id) ? 'text-blue-400 hover:text-blue-300' : 'text-slate-600 hover:text-slate-400'}
+                      aria-label={stickyGroups.has(group.id) ? 'Stop adding new tabs' : 'Add new tabs automatically'}
+                      title={stickyGroups.has(group.id) ? 'New matching tabs join this group' : 'New tabs never join this group'}
+                    >
+                      <Magnet size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onFocus(group)}
+                    className="text-slate-400 hover:text-white"
+                    aria-label="Focus on this group"
+                    title="Switch to this group and collapse the others"
+                  >
+                    <Focus size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleBookmark(group)}
+                    disabled={busy}
+                    className="text-slate-400 hover:text-white disabled:opacity-50"
+                    aria-label="Save group as bookmarks"
+                    title="Save as a bookmark folder"
+                  >
+                    {bookmarkedIds.has(group.id) ? <Check size={14} className="text-green-400" /> : <BookmarkPlus size={14} />}
+                  </button>
+                  <button
+                    onClick={() => onStash(group)}
+                    disabled={busy}
+                    className="flex items-center gap-1 text-xs text-slate-300 hover:text-white disabled:opacity-50"
+                  >
+                    <Archive size={14} />
+                    Stash
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-xs font-medium text-slate-400 mb-2">Stashed</h3>
+          {stash.length === 0 ? (
+            <p className="text-xs text-slate-500">Stashed groups are saved here with their tabs closed.</p>
+          ) : (
+            <div className="space-y-1.5">
+              {stash.map(entry => (
+                <div key={entry.id} className="p-2 rounded-lg border border-slate-700 bg-slate-800/50">
+                  <div className="flex items-center gap-3">
+                    <div className={`w-3 h-3 rounded-full shrink-0 ${colorDotClass(entry.color)}`} />
+                    {editingId === entry.id ? (
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                        onBlur={commitRename}
+                        className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                      />
+                    ) : (
+                      <span className="text-sm flex-1 truncate">{entry.name}</span>
+                    )}
+                    <span className="text-xs text-slate-500">{entry.tabs.length}</span>
+                    {editingId === entry.id ? (
+                      <button onClick={commitRename} className="text-slate-400 hover:text-white" aria-label="Save name">
+                        <Check size={14} />
+                      </button>
+                    ) : (
+                      <button onClick={() => startRename(entry)} className="text-slate-400 hover:text-white" aria-label="Rename">
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRestore(entry.id)}
+                      disabled={busy}
+                      className="text-slate-400 hover:text-green-400 disabled:opacity-50"
+                      aria-label="Restore"
+                    >
+                      <ArchiveRestore size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      disabled={busy}
+                      className="text-slate-400 hover:text-red-400 disabled:opacity-50"
+                      aria-label="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1.5 pl-6 overflow-hidden">
+                    {entry.tabs.slice(0, 12).map((tab, idx) => (
+                      tab.favIconUrl
+                        ? <img key={idx} src={tab.favIconUrl} alt="" title={tab.title} className="w-3.5 h-3.5 shrink-0" onError={(e) => e.currentTarget.style.display = 'none'} />
+                        : null
+                    ))}
+                    <span className="text-[10px] text-slate-500 ml-1 shrink-0">
+                      {new Date(entry.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-xs font-medium text-slate-400 mb-2">Open a bookmark folder as a group</h3>
+          <BookmarkPicker busy={busy} onOpen={onOpenBookmarks} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StashList;
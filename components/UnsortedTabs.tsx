@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Tab, ReviewGroup } from '../types';
+import { Layers, Wand2 } from 'lucide-react';
+import { TAB_DRAG_TYPE } from '../services/reviewService';
+
+interface UnsortedTabsProps {
+  label: string;
+  hint: string;
+  tabIds: number[];
+  allTabs: Tab[];
+  groups: ReviewGroup[];
+  onAssign: (tabId: number, groupId: string) => void;
+  onGroupLocally?: () => void;
+  onDropTab?: (tabId: number) => void;  // makes the list a drop target, shown even when empty
+  windowLabels?: Map<number, string>;
+}
+
+// Tabs outside every proposed group. They stay where they are when groups are
+// applied unless they are placed into a group here.
+const UnsortedTabs: React.FC<UnsortedTabsProps> = ({ label, hint, tabIds, allTabs, groups, onAssign, onGroupLocally, onDropTab, windowLabels }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const unsorted = allTabs.filter(t => tabIds.includes(t.id));
+
+  if (unsorted.length === 0 && !onDropTab) return null;
+
+  const dropHandlers = onDropTab ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(TAB_DRAG_TYPE)) return;
+      e.preventDefault();
+      setIsDragOver(true);
+    },
+    onDragLeave: () => setIsDragOver(false),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragOver(false);
+      const tabId = Number(e.dataTransfer.getData(TAB_DRAG_TYPE));
+      if (tabId) onDropTab(tabId);
+    },
+  } : {};
+
+  return (
+    <div
+      className={`mb-3 border border-dashed rounded-lg overflow-hidden ${isDragOver ? 'border-blue-500' : 'border-slate-600'}`}
+      {...dropHandlers}
+    >
+      <div className="flex items-center gap-3 p-3">
+        <span className="font-semibold text-sm text-slate-400">{label}</span>
+        <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded-full">
+          {unsorted.length}
+        </span>
+        <span className="text-[10px] text-slate-500 flex-1">{hint}</span>
+        {onGroupLocally && (
+          <button
+            onClick={onGroupLocally}
+            className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300"
+          >
+            <Wand2 size={12} />
+            Group locally
+          </button>
+        )}
+      </div>
+      <div className="border-t border-slate-700 bg-slate-900/30">
+        {unsorted.length === 0 && (
+          <p className="px-4 py-3 text-xs text-slate-500 text-center">Drop tabs here to leave them where they are</p>
+        )}
+        {unsorted.map(tab => (
+          <div
+            key={tab.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(TAB_DRAG_TYPE, String(tab.id));
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            className="flex items-center gap-3 px-4 py-2 overflow-hidden cursor-grab"
+          >
+            {tab.favIconUrl ? (
+              <img src={tab.favIconUrl} alt="" className="w-4 h-4 shrink-0" onError={(e) => e.currentTarget.style.display = 'none'} />
+            ) : (
+              <Layers size={14} className="text-slate-500 shrink-0" />
+            )}
+            <span className="text-xs text-slate-400 truncate flex-1">{tab.title}</span>
+            {windowLabels && tab.windowId !== undefined && windowLabels.has(tab.windowId) && (
+              <span className="text-[9px] font-semibold px-1 rounded border bg-slate-800 text-slate-400 border-slate-600 shrink-0">
+                {windowLabels.get(tab.windowId)}
+              </span>
+            )}
+            {groups.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => onAssign(tab.id, e.target.value)}
+                className="bg-slate-800 border border-slate-600 rounded text-[10px] text-slate-300 px-1 py-0.5 max-w-[110px] shrink-0"
+                aria-label="Add to group"
+              >
+                <option value="" disabled>Add to…</option>
+                {groups.map(g => (
+                  <option key={g.id} value={g.id}>{g.groupName}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UnsortedTabs;
@@ -1,57 +1,186 @@
-import { Tab, TabGroupProposal, GroupingResponse, Settings } from '../types';
+import { Tab, TabGroupProposal, Settings, ExistingGroup, CategorizationResult, CategorizationProgress, GroupingValidation, LearnedCorrection } from '../types';
+import { buildChatRequest, isProviderConfigured, parseGroupingContent, promptFormatInstructions } from './providerService';
+import { validateGrouping, repairGrouping, mergeCorrection } from './validationService';
+import { chunkByTokenBudget, mergeSimilarGroups, foldSmallestGroups, combineValidations } from './batchService';
+import { applyPrivacyFilter } from './privacyService';
+import { buildSystemPrompt, buildGroupingSchema, describeCorrections } from './promptService';
+import { loadCorrections, relevantCorrections } from './learningService';
 
 declare var chrome: any;
 
-const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
-
-const jsonSchema = {
-  name: 'tab_groups',
-  strict: true,
-  schema: {
-    type: 'object',
-    properties: {
-      groups: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            groupName: {
-              type: 'string',
-              description: "A short, descriptive name for the tab stack, preferably with an emoji prefix (e.g., '💻 Dev', '🎵 Media')."
-            },
-            color: {
-              type: 'string',
-              enum: ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan']
-            },
-            tabIds: {
-              type: 'array',
-              items: { type: 'integer' }
-            }
-          },
-          required: ['groupName', 'color', 'tabIds'],
-          additionalProperties: false
-        }
+const normalizeGroupName = (name: string) => name.trim().toLowerCase();
+
+// Proposals whose name matches an existing group are slotted into that group,
+// keeping its current title and color instead of creating a duplicate.
+export const attachExistingGroups = (
+  proposals: TabGroupProposal[],
+  existingGroups: ExistingGroup[]
+): TabGroupProposal[] => {
+  if (!existingGroups.length) return proposals;
+  const byName = new Map(existingGroups.map(g => [normalizeGroupName(g.title), g]));
+  return proposals.map(p => {
+    const existing = byName.get(normalizeGroupName(p.groupName));
+    if (!existing) return p;
+    return { ...p, groupName: existing.title, color: existing.color, existingGroupId: existing.id };
+  });
+};
+
+const EMPTY_RESULT: CategorizationResult = { proposals: [], unassignedTabIds: [] };
+
+const requestGrouping = async (
+  settings: Settings,
+  systemPrompt: string,
+  userPrompt: string
+): Promise<TabGroupProposal[]> => {
+  const { url, init } = buildChatRequest(settings, [
+    { role: 'system', content: systemPrompt + promptFormatInstructions(settings) },
+    { role: 'user', content: userPrompt },
+  ], buildGroupingSchema(settings.prompt));
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const err = await response.text();
+    console.error('[TabOrganizer] AI provider error:', err);
+    throw new Error(`AI request failed (${response.status}): ${err}`);
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) throw new Error('No response from AI model.');
+
+  return parseGroupingContent(content).groups;
+};
+
+const categorizeBatch = async (
+  tabData: { id: number; title: string; url: string }[],
+  settings: Settings,
+  knownGroups: { groupName: string; color: string }[],
+  corrections: LearnedCorrection[] = []
+): Promise<{ groups: TabGroupProposal[]; unassignedTabIds: number[]; validation: GroupingValidation }> => {
+  const tabIds = tabData.map(t => t.id);
+
+  const systemPrompt = buildSystemPrompt(settings.prompt, knownGroups.length > 0);
+
+  const userPrompt = (knownGroups.length
+    ? `Existing groups:\n${JSON.stringify(knownGroups)}\n\nGroup these tabs:\n${JSON.stringify(tabData)}`
+    : `Group these tabs:\n${JSON.stringify(tabData)}`) + describeCorrections(relevantCorrections(corrections, tabData));
+
+  let groups = await requestGrouping(settings, systemPrompt, userPrompt);
+  const validation = validateGrouping(groups, tabIds);
+
+  // Give the model one chance to place the tabs it skipped before falling back to "Unsorted"
+  if (validation.missingTabIds.length) {
+    const missing = new Set(validation.missingTabIds);
+    const groupNames = [...new Set([...groups.map(g => g.groupName), ...knownGroups.map(g => g.groupName)])];
+    const correctionPrompt = `These tabs were left out of your grouping:\n${JSON.stringify(tabData.filter(t => missing.has(t.id)))}\n\nAssign each of them to one of these groups, using the exact name, or to a new group if none fits:\n${JSON.stringify(groupNames)}`;
+    try {
+      groups = mergeCorrection(groups, await requestGrouping(settings, systemPrompt, correctionPrompt));
+    } catch (err) {
+      console.warn('[TabOrganizer] Correction request failed:', err);
+    }
+  }
+
+  const repaired = repairGrouping(groups, tabIds);
+  return { groups: repaired.groups, unassignedTabIds: repaired.unassignedTabIds, validation };
+};
+
+// Folds groups from separate batches down to maxGroups. Each group is sent as
+// one item (name and size), so the request stays small however many tabs the
+// window has; the schema's maxItems holds the model to the limit.
+const consolidateGroups = async (groups: TabGroupProposal[], settings: Settings): Promise<TabGroupProposal[]> => {
+  const { maxGroups } = settings.prompt;
+  if (!maxGroups || groups.length <= maxGroups) return groups;
+
+  const items = groups.map((g, i) => ({ id: i, groupName: g.groupName, tabCount: g.tabIds.length }));
+  const systemPrompt = buildSystemPrompt(settings.prompt, false);
+  const userPrompt = `These groups were made in separate batches and there are too many. Each ID below is a whole group, not a tab. Merge related groups so there are at most ${maxGroups}; a group that is not merged keeps its name:\n${JSON.stringify(items)}`;
+  try {
+    const merged = repairGrouping(await requestGrouping(settings, systemPrompt, userPrompt), items.map(item => item.id));
+    return foldSmallestGroups([
+      ...merged.groups.map(m => ({ groupName: m.groupName, color: m.color, tabIds: m.tabIds.flatMap(i => groups[i].tabIds) })),
+      ...merged.unassignedTabIds.map(i => groups[i]),
+    ], maxGroups);
+  } catch (err) {
+    console.warn('[TabOrganizer] Consolidation request failed:', err);
+    return foldSmallestGroups(groups, maxGroups);
+  }
+};
+
+/**
+ * Groups already redacted tabs with the configured provider. Large windows are
+ * split into token-budgeted batches; later batches see the group names chosen
+ * so far so names converge before the merge pass. Group count limits are for
+ * the whole window, so with several batches they are left out of each request
+ * and the merged result is consolidated instead. Also run by the service worker.
+ */
+export const groupTabsWithAI = async (
+  tabs: Tab[],
+  settings: Settings,
+  existingGroups: ExistingGroup[] = [],
+  ruleProposals: TabGroupProposal[] = [],
+  onProgress: (progress: CategorizationProgress) => void = () => {}
+): Promise<CategorizationResult> => {
+  const batches = chunkByTokenBudget(tabs.map(t => ({ id: t.id, title: t.title, url: t.url })));
+  const batchSettings = batches.length > 1
+    ? { ...settings, prompt: { ...settings.prompt, minGroups: null, maxGroups: null } }
+    : settings;
+  const knownGroups = [
+    ...existingGroups.map(g => ({ groupName: g.title, color: g.color })),
+    ...ruleProposals.map(p => ({ groupName: p.groupName, color: p.color })),
+  ];
+  const allGroups: TabGroupProposal[] = [...ruleProposals];
+  const unassignedTabIds: number[] = [];
+  const validations: GroupingValidation[] = [];
+  const corrections = settings.prompt.learnFromEdits ? await loadCorrections() : [];
+
+  for (let i = 0; i < batches.length; i++) {
+    onProgress({ batch: i + 1, totalBatches: batches.length });
+    const result = await categorizeBatch(batches[i], batchSettings, knownGroups, corrections);
+    allGroups.push(...result.groups);
+    unassignedTabIds.push(...result.unassignedTabIds);
+    validations.push(result.validation);
+    for (const g of result.groups) {
+      if (!knownGroups.some(k => normalizeGroupName(k.groupName) === normalizeGroupName(g.groupName))) {
+        knownGroups.push({ groupName: g.groupName, color: g.color });
       }
-    },
-    required: ['groups'],
-    additionalProperties: false
+    }
   }
+
+  const merged = mergeSimilarGroups(allGroups);
+  return {
+    proposals: attachExistingGroups(batches.length > 1 ? await consolidateGroups(merged, settings) : merged, existingGroups),
+    unassignedTabIds,
+    validation: combineValidations(validations),
+  };
 };
 
-export const categorizeTabs = async (tabs: Tab[], settings: Settings): Promise<TabGroupProposal[]> => {
-  if (!tabs.length) return [];
-  if (!settings.apiKey) throw new Error('No API key configured. Open settings to add your OpenRouter API key.');
+// ruleProposals are groups already filled by user rules (see rulesService). The
+// model sees their names so similar tabs can join them, and they lead the merge.
+export const categorizeTabs = async (
+  tabs: Tab[],
+  settings: Settings,
+  existingGroups: ExistingGroup[] = [],
+  ruleProposals: TabGroupProposal[] = []
+): Promise<CategorizationResult> => {
+  const ruleTabIds = ruleProposals.flatMap(p => p.tabIds);
+  if (!tabs.length) return { ...EMPTY_RESULT, proposals: ruleProposals, ruleTabIds };
+  if (!isProviderConfigured(settings)) throw new Error('No API key configured. Open settings to add your API key.');
+
+  // Redact before anything leaves the popup; withheld tabs are reviewed locally
+  const { sendable, withheld } = applyPrivacyFilter(tabs, settings.privacy);
+  const withheldTabIds = withheld.map(t => t.id);
+  if (!sendable.length) return { ...EMPTY_RESULT, proposals: ruleProposals, withheldTabIds, ruleTabIds };
 
   if (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.sendMessage) {
     return new Promise((resolve, reject) => {
       chrome.runtime.sendMessage(
-        { action: 'startCategorization', tabs, settings },
+        { action: 'startCategorization', tabs: sendable, settings, existingGroups, withheldTabIds, ruleProposals },
         (response: any) => {
           if (chrome.runtime.lastError) {
             return reject(new Error(chrome.runtime.lastError.message));
           }
           if (response?.success) {
-            resolve([]); // We return empty array because checking status happens asynchronously via polling
+            resolve(EMPTY_RESULT); // We return an empty result because checking status happens asynchronously via polling
           } else {
             reject(new Error(response?.error || 'Failed to start categorization in background.'));
           }
@@ -60,62 +189,12 @@ export const categorizeTabs = async (tabs: Tab[], settings: Settings): Promise<T
     });
   }
 
-  const tabData = tabs.map(t => ({ id: t.id, title: t.title, url: t.url }));
-
-  const systemPrompt = `You are a tab organizer. Analyze browser tabs and group them into logical stacks.
-Rules:
-1. Every tab ID must be assigned to exactly one group.
-2. Avoid a 'Miscellaneous' group when possible.
-3. Use specific group names with an emoji prefix.
-4. Respond ONLY with valid JSON matching the provided schema.`;
-
-  const userPrompt = `Group these tabs:\n${JSON.stringify(tabData)}`;
-
-  const response = await fetch(OPENROUTER_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${settings.apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': 'https://github.com/pranavchavda/espressobot-tab-organizer',
-      'X-Title': 'EspressoBot Tab Organizer',
-    },
-    body: JSON.stringify({
-      model: settings.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: jsonSchema,
-      },
-      temperature: 0.3,
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    console.error('[TabOrganizer] OpenRouter error:', err);
-    throw new Error(`AI request failed (${response.status}): ${err}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) throw new Error('No response from AI model.');
-
-  let result: GroupingResponse;
-  try {
-    result = JSON.parse(content) as GroupingResponse;
-  } catch {
-    throw new Error('AI returned invalid JSON. Try a different model or try again.');
-  }
-  if (!result.groups || !Array.isArray(result.groups)) {
-    throw new Error('Invalid response structure from AI model.');
-  }
-  return result.groups;
+  // Web preview: no service worker, so run the same batching here
+  const result = await groupTabsWithAI(sendable, settings, existingGroups, ruleProposals);
+  return { ...result, withheldTabIds, ruleTabIds };
 };
 
-export const checkAnalysisStatus = async (): Promise<{ status: string, proposals?: TabGroupProposal[], error?: string }> => {
+export const checkAnalysisStatus = async (): Promise<{ status: string, proposals?: TabGroupProposal[], unassignedTabIds?: number[], withheldTabIds?: number[], ruleTabIds?: number[], validation?: GroupingValidation, progress?: CategorizationProgress, error?: string }> => {
   if (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.sendMessage) {
     return new Promise((resolve, reject) => {
       chrome.runtime.sendMessage({ action: 'getCategorizationStatus' }, (response: any) => {
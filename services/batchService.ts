@@ -0,0 +1,110 @@
+import { TabGroupProposal, GroupingValidation } from '../types';
+
+// Rough budget for the tab list in one prompt. Leaves headroom for the system
+// prompt and the response on models with small (8k) context windows.
+export const BATCH_TOKEN_BUDGET = 4000;
+
+// ~4 characters per token is close enough for URLs and titles
+const estimateTokens = (value: unknown) => Math.ceil(JSON.stringify(value).length / 4);
+
+export const chunkByTokenBudget = <T>(items: T[], budget: number = BATCH_TOKEN_BUDGET): T[][] => {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    const cost = estimateTokens(item);
+    if (current.length > 0 && used + cost > budget) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += cost;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// Words ending in "s" that are not plurals, beyond the ss/us/is endings singular() skips anyway
+const NOT_PLURAL = new Set(['news', 'series', 'species', 'lens', 'atlas', 'alias', 'bias', 'canvas', 'chaos', 'gas', 'ios', 'macos']);
+
+// English plural rule, good enough for group names: "boxes" -> "box", "tools" -> "tool",
+// while "news", "class" and "status" stay as they are
+const singular = (word: string) => {
+  if (word.length <= 3 || NOT_PLURAL.has(word) || /(ss|us|is)$/.test(word)) return word;
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+};
+
+// Strips emoji, punctuation and plural endings so "💻 Dev Tools" and "Dev tool" compare equal
+export const groupNameKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singular)
+    .join(' ');
+
+const bigrams = (value: string) => {
+  const grams = new Set<string>();
+  for (let i = 0; i < value.length - 1; i++) grams.add(value.slice(i, i + 2));
+  return grams;
+};
+
+// Dice coefficient over character bigrams. An empty key (a name with no
+// letters or digits) is never similar to anything, not even another empty key.
+export const similarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (!ga.size || !gb.size) return 0;
+  let shared = 0;
+  for (const gram of ga) if (gb.has(gram)) shared++;
+  return (2 * shared) / (ga.size + gb.size);
+};
+
+export const SIMILAR_NAME_THRESHOLD = 0.85;
+
+// Merge pass over the groups from every batch: near-identical names collapse
+// into the first group seen, which keeps its name and color.
+export const mergeSimilarGroups = (groups: TabGroupProposal[]): TabGroupProposal[] => {
+  const merged: { key: string; group: TabGroupProposal }[] = [];
+  for (const group of groups) {
+    const key = groupNameKey(group.groupName);
+    // Names like "🎵" or "???" have no key, so only an identical name merges with them
+    const match = merged.find(m => key
+      ? similarity(m.key, key) >= SIMILAR_NAME_THRESHOLD
+      : !m.key && m.group.groupName.trim() === group.groupName.trim());
+    if (match) {
+      match.group.tabIds = [...new Set([...match.group.tabIds, ...group.tabIds])];
+    } else {
+      merged.push({ key, group: { ...group, tabIds: [...group.tabIds] } });
+    }
+  }
+  return merged.map(m => m.group);
+};
+
+// Last resort when consolidation fails: the smallest group joins the one with
+// the most similar name until at most `max` groups remain
+export const foldSmallestGroups = (groups: TabGroupProposal[], max: number): TabGroupProposal[] => {
+  const result = groups.map(g => ({ ...g, tabIds: [...g.tabIds] }));
+  while (result.length > Math.max(max, 1)) {
+    const smallest = result.reduce((min, g, i) => (g.tabIds.length < result[min].tabIds.length ? i : min), 0);
+    const [folded] = result.splice(smallest, 1);
+    const key = groupNameKey(folded.groupName);
+    const target = result.reduce((best, g) =>
+      similarity(groupNameKey(g.groupName), key) > similarity(groupNameKey(best.groupName), key) ? g : best);
+    target.tabIds.push(...folded.tabIds);
+  }
+  return result;
+};
+
+export const combineValidations = (validations: GroupingValidation[]): GroupingValidation => ({
+  unknownTabIds: validations.flatMap(v => v.unknownTabIds),
+  missingTabIds: validations.flatMap(v => v.missingTabIds),
+  duplicateTabIds: validations.flatMap(v => v.duplicateTabIds),
+  emptyGroups: validations.flatMap(v => v.emptyGroups),
+  invalidColors: validations.flatMap(v => v.invalidColors),
+});
@@ -0,0 +1,84 @@
+import { BookmarkFolder, SessionGroup } from '../types';
+import { openTabs, applyTabGroups } from './tabManager';
+import { loadColorRegistry, registryColorFor } from './colorService';
+
+declare var chrome: any;
+
+const hasBookmarks = () =>
+  typeof chrome !== 'undefined' && chrome.bookmarks;
+
+const requireBookmarks = () => {
+  if (!hasBookmarks()) throw new Error('Bookmarks are only available in the extension.');
+};
+
+// "Other bookmarks" in Chrome and Edge, the second folder under the root
+const defaultParentId = async (): Promise<string> => {
+  const [root] = await chrome.bookmarks.getTree();
+  const children = root.children || [];
+  return (children[1] ?? children[0]).id;
+};
+
+// Every folder in the tree, depth first, with its path for display
+export const listBookmarkFolders = async (): Promise<BookmarkFolder[]> => {
+  if (!hasBookmarks()) return [];
+  const [root] = await chrome.bookmarks.getTree();
+  const folders: BookmarkFolder[] = [];
+  const walk = (node: any, path: string[]) => {
+    for (const child of node.children || []) {
+      if (child.url) continue;
+      const childPath = [...path, child.title];
+      folders.push({
+        id: child.id,
+        title: child.title,
+        path: childPath.join(' / '),
+        linkCount: (child.children || []).filter((c: any) => c.url).length,
+      });
+      walk(child, childPath);
+    }
+  };
+  walk(root, []);
+  return folders;
+};
+
+/**
+ * Saves each group as a folder under the parent. A folder with the same name
+ * is reused, and links it already holds are not added again, so saving a group
+ * twice only adds its new tabs. Returns how many bookmarks were created.
+ */
+export const saveGroupsAsBookmarks = async (groups: SessionGroup[], parentFolderId: string | null): Promise<number> => {
+  requireBookmarks();
+  const parentId = parentFolderId ?? await defaultParentId();
+  let siblings: any[];
+  try {
+    siblings = await chrome.bookmarks.getChildren(parentId);
+  } catch {
+    throw new Error('The bookmark folder for saved groups no longer exists. Pick another one in Settings.');
+  }
+
+  let created = 0;
+  for (const group of groups) {
+    const folder = siblings.find(n => !n.url && n.title === group.name)
+      ?? await chrome.bookmarks.create({ parentId, title: group.name });
+    const saved = new Set((await chrome.bookmarks.getChildren(folder.id)).map((n: any) => n.url));
+    for (const tab of group.tabs) {
+      if (saved.has(tab.url)) continue;
+      await chrome.bookmarks.create({ parentId: folder.id, title: tab.title || tab.url, url: tab.url });
+      saved.add(tab.url);
+      created++;
+    }
+  }
+  return created;
+};
+
+// Opens the folder's links and groups them through the normal applyTabGroups
+// path, named after the folder and in the color that name had last time
+export const openFolderAsGroup = async (folderId: string): Promise<void> => {
+  requireBookmarks();
+  const [folder] = await chrome.bookmarks.get(folderId);
+  const links = (await chrome.bookmarks.getChildren(folderId)).filter((n: any) => n.url);
+  if (!links.length) throw new Error(`"${folder.title}" has no bookmarks to open.`);
+
+  const tabIds = await openTabs(links.map((n: any) => n.url));
+  const color = registryColorFor(await loadColorRegistry(), folder.title) ?? 'blue';
+  await applyTabGroups([{ groupName: folder.title, color, tabIds }]);
+};
@@ -1,49 +1,203 @@
-import { Tab, CleanupCandidate } from '../types';
+import {
+  Tab, CleanupCandidate, CleanupSettings, DuplicateRule, SiteIgnoredParams, DomainThreshold, ProtectionReason, CleanupAction,
+} from '../types';
+import { parseUrl, matchesUrlPattern, matchesAnyPattern, parsePatternList } from './urlPatterns';
 
-export const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
+export const DEFAULT_STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
 
-export function detectCleanupCandidates(tabs: Tab[]): CleanupCandidate[] {
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// "30m", "4h", "7d", "2w"; a bare number is hours
+export const parseDuration = (text: string): number | null => {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([mhdw]?)$/);
+  if (!match) return null;
+  const ms = Number(match[1]) * DURATION_UNITS[match[2] || 'h'];
+  return ms > 0 ? ms : null;
+};
+
+export const formatDuration = (ms: number): string => {
+  for (const unit of ['w', 'd', 'h']) {
+    if (ms % DURATION_UNITS[unit] === 0) return `${ms / DURATION_UNITS[unit]}${unit}`;
+  }
+  return `${Math.round(ms / DURATION_UNITS.m)}m`;
+};
+
+// Params that only identify where a click came from, never what the page shows
+const TRACKING_PARAMS = new Set([
+  'gclid', 'dclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'ref_url', 'oly_anon_id', 'oly_enc_id',
+]);
+
+const isTrackingParam = (name: string) => name.startsWith('utm_') || TRACKING_PARAMS.has(name.toLowerCase());
+
+// Only an empty "#" or a text fragment (#:~:text=...) is certainly an in-page
+// anchor. Anything else may select content in a single-page app (Gmail's #inbox
+// and #sent), so it is kept and fragment-only differences are left to the review.
+const isInPageAnchor = (hash: string) => !hash || hash === '#' || hash.startsWith('#:~:');
+
+/**
+ * Normalizes a URL so trivially different links compare equal: lowercases the
+ * host, drops "www.", default ports, tracking and user-ignored query params,
+ * in-page anchors and trailing slashes, and sorts what is left of the query.
+ */
+export const canonicalizeUrl = (url: string, settings?: CleanupSettings): string => {
+  const parsed = parseUrl(url);
+  if (!parsed || !/^https?:$/.test(parsed.protocol)) return url;
+
+  const ignored = new Set(
+    (settings?.siteIgnoredParams ?? [])
+      .filter(rule => matchesUrlPattern(url, rule.pattern))
+      .flatMap(rule => rule.params.map(p => p.toLowerCase()))
+  );
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name) && !ignored.has(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';  // URL already drops default ports
+  const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : '';
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+  const hash = isInPageAnchor(parsed.hash) ? '' : parsed.hash;
+  return `${parsed.protocol}//${host}${port}${path}${query}${hash}`;
+};
+
+// Near-duplicate key: same page regardless of query string and anchor
+const pathKey = (url: string): string | null => {
+  const parsed = parseUrl(url);
+  if (!parsed || !/^https?:$/.test(parsed.protocol)) return null;
+  const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : '';
+  return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}`;
+};
+
+const titleKey = (tab: Tab): string | null => {
+  const parsed = parseUrl(tab.url);
+  const title = tab.title.trim().toLowerCase();
+  if (!parsed || !title || title === 'untitled') return null;
+  return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}|${title}`;
+};
+
+// Settings edit site rules as "pattern: param, param" lines
+export const parseSiteIgnoredParams = (text: string): SiteIgnoredParams[] =>
+  parsePatternList(text).flatMap(line => {
+    const colon = line.lastIndexOf(':');
+    if (colon <= 0) return [];
+    const params = line.slice(colon + 1).split(',').map(p => p.trim()).filter(Boolean);
+    return params.length ? [{ pattern: line.slice(0, colon).trim(), params }] : [];
+  });
+
+export const formatSiteIgnoredParams = (rules: SiteIgnoredParams[]): string =>
+  rules.map(rule => `${rule.pattern}: ${rule.params.join(', ')}`).join('\n');
+
+// Settings edit overrides as "pattern: 4h" lines
+export const parseDomainThresholds = (text: string): DomainThreshold[] =>
+  parsePatternList(text).flatMap(line => {
+    const colon = line.lastIndexOf(':');
+    if (colon <= 0) return [];
+    const thresholdMs = parseDuration(line.slice(colon + 1));
+    return thresholdMs ? [{ pattern: line.slice(0, colon).trim(), thresholdMs }] : [];
+  });
+
+export const formatDomainThresholds = (rules: DomainThreshold[]): string =>
+  rules.map(rule => `${rule.pattern}: ${formatDuration(rule.thresholdMs)}`).join('\n');
+
+// First matching override wins, so list specific sites before broad ones
+const staleThresholdFor = (url: string, settings?: CleanupSettings): number =>
+  settings?.domainThresholds.find(rule => matchesUrlPattern(url, rule.pattern))?.thresholdMs
+    ?? settings?.staleThresholdMs
+    ?? DEFAULT_STALE_THRESHOLD_MS;
+
+const protectionFor = (tab: Tab, settings?: CleanupSettings): ProtectionReason | undefined => {
+  if (!settings) return undefined;
+  if (settings.protectActive && tab.active) return 'active';
+  if (settings.protectAudible && tab.audible) return 'audible';
+  if (settings.protectGrouped && tab.groupId) return 'grouped';
+  if (matchesAnyPattern(tab.url, settings.neverClose)) return 'never-close';
+  return undefined;
+};
+
+const NEAR_DUPLICATE_RULES = new Set<DuplicateRule>(['fragment-only', 'same-path', 'same-title']);
+
+// Near-duplicates are less certain, so they start as "keep" in the review list;
+// protected tabs are only listed to explain why they are kept
+export const defaultCleanupActions = (candidates: CleanupCandidate[]): Map<number, CleanupAction> =>
+  new Map(
+    candidates.map(c => [
+      c.tabId,
+      c.protectedBy || (c.duplicateRule && NEAR_DUPLICATE_RULES.has(c.duplicateRule)) ? 'keep' : 'close',
+    ])
+  );
+
+export const tabIdsWithAction = (actions: Map<number, CleanupAction>, action: CleanupAction): number[] =>
+  [...actions].filter(([, a]) => a === action).map(([tabId]) => tabId);
+
+export const hasClosableCandidates = (candidates: CleanupCandidate[]): boolean =>
+  candidates.some(c => !c.protectedBy);
+
+export function detectCleanupCandidates(tabs: Tab[], settings?: CleanupSettings): CleanupCandidate[] {
   const now = Date.now();
   const candidates = new Map<number, CleanupCandidate>();
+  const protection = new Map(tabs.map(tab => [tab.id, protectionFor(tab, settings)]));
 
-  // --- Duplicate detection ---
-  const byUrl = new Map<string, Tab[]>();
-  for (const tab of tabs) {
-    if (!tab.url) continue;
-    const key = tab.url;
-    if (!byUrl.has(key)) byUrl.set(key, []);
-    byUrl.get(key)!.push(tab);
-  }
-  for (const group of byUrl.values()) {
-    if (group.length < 2) continue;
-    // Keep the most recently accessed tab; flag the rest
-    const sorted = [...group].sort((a, b) => {
-      const timeDiff = (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0);
-      return timeDiff !== 0 ? timeDiff : b.id - a.id;
-    });
-    const keeper = sorted[0];
-    for (const tab of sorted.slice(1)) {
-      candidates.set(tab.id, {
-        tabId: tab.id,
-        reason: 'duplicate',
-        lastAccessed: tab.lastAccessed ?? 0,
-        duplicateOfTabId: keeper.id,
+  // Keep a protected tab if the cluster has one, else the most recently accessed; flag the rest
+  const flagDuplicates = (keyOf: (tab: Tab) => string | null, ruleFor: (tab: Tab, keeper: Tab) => DuplicateRule) => {
+    const clusters = new Map<string, Tab[]>();
+    for (const tab of tabs) {
+      if (!tab.url || candidates.has(tab.id)) continue;
+      const key = keyOf(tab);
+      if (!key) continue;
+      if (!clusters.has(key)) clusters.set(key, []);
+      clusters.get(key)!.push(tab);
+    }
+    for (const group of clusters.values()) {
+      if (group.length < 2) continue;
+      const sorted = [...group].sort((a, b) => {
+        const protectedDiff = Number(!!protection.get(b.id)) - Number(!!protection.get(a.id));
+        if (protectedDiff !== 0) return protectedDiff;
+        const timeDiff = (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0);
+        return timeDiff !== 0 ? timeDiff : b.id - a.id;
       });
+      const keeper = sorted[0];
+      for (const tab of sorted.slice(1)) {
+        candidates.set(tab.id, {
+          tabId: tab.id,
+          reason: 'duplicate',
+          lastAccessed: tab.lastAccessed ?? 0,
+          duplicateOfTabId: keeper.id,
+          duplicateRule: ruleFor(tab, keeper),
+          protectedBy: protection.get(tab.id),
+        });
+      }
     }
+  };
+
+  // --- Duplicate detection ---
+  flagDuplicates(
+    tab => canonicalizeUrl(tab.url, settings),
+    (tab, keeper) => (tab.url === keeper.url ? 'exact-url' : 'canonical-url')
+  );
+  // Listed even without near-duplicate mode, but they start as Keep
+  flagDuplicates(tab => canonicalizeUrl(tab.url.split('#')[0], settings), () => 'fragment-only');
+  if (settings?.nearDuplicates) {
+    flagDuplicates(tab => pathKey(tab.url), () => 'same-path');
+    flagDuplicates(titleKey, () => 'same-title');
   }
 
   // --- Stale detection ---
   for (const tab of tabs) {
     const idle = now - (tab.lastAccessed ?? now);
-    if (idle < STALE_THRESHOLD_MS) continue;
+    const threshold = staleThresholdFor(tab.url, settings);
+    if (idle < threshold) continue;
     const existing = candidates.get(tab.id);
     if (existing) {
       existing.reason = 'stale+duplicate';
+      existing.staleThresholdMs = threshold;
     } else {
       candidates.set(tab.id, {
         tabId: tab.id,
         reason: 'stale',
         lastAccessed: tab.lastAccessed ?? 0,
+        staleThresholdMs: threshold,
+        protectedBy: protection.get(tab.id),
       });
     }
   }
@@ -0,0 +1,87 @@
+import { TabGroupProposal, TabGroupColor, GroupingStrategy } from '../types';
+import { groupNameKey, similarity, SIMILAR_NAME_THRESHOLD } from './batchService';
+import { readStored, writeStored } from './storageService';
+import { GROUP_COLORS } from './groupColors';
+
+// Written by the service worker each time groups are applied
+const STORAGE_KEY = 'espressobot_group_colors';
+
+// Keyed by groupNameKey, so "💻 Dev" and "Dev" share a color
+export type ColorRegistry = Record<string, { color: TabGroupColor; updatedAt: number }>;
+
+const REGISTRY_LIMIT = 200;
+
+// Vivaldi has no pink or cyan; applyTabGroupsVivaldi maps them to Red and Blue
+const VIVALDI_EQUIVALENT: Partial<Record<TabGroupColor, TabGroupColor>> = { pink: 'red', cyan: 'blue' };
+const VIVALDI_COLORS: TabGroupColor[] = ['grey', 'blue', 'red', 'yellow', 'green', 'purple'];
+
+// Colors offered when editing a group in review
+export const paletteFor = (strategy: GroupingStrategy | null): TabGroupColor[] =>
+  strategy === 'vivaldi-stacks' ? VIVALDI_COLORS : GROUP_COLORS;
+
+export const loadColorRegistry = (): Promise<ColorRegistry> =>
+  readStored(STORAGE_KEY, {});
+
+const saveColorRegistry = (registry: ColorRegistry): Promise<void> =>
+  writeStored(STORAGE_KEY, registry);
+
+// Remembers the colors of applied groups by name; only the most recently used names are kept
+export const recordGroupColors = async (groups: TabGroupProposal[]): Promise<void> => {
+  const registry = await loadColorRegistry();
+  const updatedAt = Date.now();
+  for (const group of groups) {
+    const key = groupNameKey(group.groupName || '');
+    if (key && GROUP_COLORS.includes(group.color)) registry[key] = { color: group.color, updatedAt };
+  }
+  await saveColorRegistry(Object.fromEntries(
+    Object.entries(registry).sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, REGISTRY_LIMIT)
+  ));
+};
+
+// Exact key first, then the closest fuzzy match above the merge threshold
+export const registryColorFor = (registry: ColorRegistry, groupName: string): TabGroupColor | undefined => {
+  const key = groupNameKey(groupName);
+  if (registry[key]) return registry[key].color;
+
+  let best: { color: TabGroupColor; score: number } | undefined;
+  for (const [known, entry] of Object.entries(registry)) {
+    const score = similarity(known, key);
+    if (score >= SIMILAR_NAME_THRESHOLD && (!best || score > best.score)) best = { color: entry.color, score };
+  }
+  return best?.color;
+};
+
+/**
+ * Replaces model-chosen colors with the ones these group names had before.
+ * For Vivaldi, colors are folded onto the ones it can show and neighbouring
+ * stacks are recolored so they never look the same. Groups that already exist
+ * keep their color; remembered colors only move when a clash can't be avoided otherwise.
+ */
+export const applyColorRegistry = (
+  proposals: TabGroupProposal[],
+  registry: ColorRegistry,
+  strategy: GroupingStrategy | null
+): TabGroupProposal[] => {
+  const remembered = proposals.map(p => !!p.existingGroupId || !!registryColorFor(registry, p.groupName));
+  const recolored = proposals.map(p =>
+    p.existingGroupId ? p : { ...p, color: registryColorFor(registry, p.groupName) ?? p.color }
+  );
+  if (strategy !== 'vivaldi-stacks') return recolored;
+
+  const result = recolored.map(p => ({ ...p, color: VIVALDI_EQUIVALENT[p.color] ?? p.color }));
+
+  const pick = (i: number): TabGroupColor => {
+    const neighbours = new Set([result[i - 1]?.color, result[i + 1]?.color]);
+    const used = new Set(result.map(p => p.color));
+    const free = VIVALDI_COLORS.filter(c => !neighbours.has(c));
+    return free.find(c => !used.has(c)) ?? free[0];
+  };
+
+  for (let i = 1; i < result.length; i++) {
+    if (result[i].color !== result[i - 1].color) continue;
+    const target = !remembered[i] || remembered[i - 1] ? i : i - 1;
+    if (result[target].existingGroupId) continue;
+    result[target] = { ...result[target], color: pick(target) };
+  }
+  return result;
+};
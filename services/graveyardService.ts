@@ -0,0 +1,52 @@
+import { GraveyardEntry, GraveyardSettings } from '../types';
+import { openTabs } from './tabManager';
+import { readStored, writeStored } from './storageService';
+
+// Written by the service worker whenever applyCleanup closes tabs
+const STORAGE_KEY = 'espressobot_graveyard';
+
+// Newest first; drops entries older than maxAgeMs, then keeps at most maxEntries
+export const pruneGraveyard = (entries: GraveyardEntry[], limits: GraveyardSettings): GraveyardEntry[] => {
+  const cutoff = Date.now() - limits.maxAgeMs;
+  return entries.filter(e => e.closedAt >= cutoff).slice(0, limits.maxEntries);
+};
+
+const readGraveyard = (): Promise<GraveyardEntry[]> =>
+  readStored(STORAGE_KEY, []);
+
+const saveGraveyard = (entries: GraveyardEntry[]): Promise<void> =>
+  writeStored(STORAGE_KEY, entries);
+
+// Newly closed tabs go in front of the existing log
+export const addGraveyardEntries = async (entries: GraveyardEntry[], limits: GraveyardSettings): Promise<void> => {
+  if (!entries.length) return;
+  await saveGraveyard(pruneGraveyard([...entries, ...(await readGraveyard())], limits));
+};
+
+// Age limits only apply when something new is closed, so prune on load as well
+export const loadGraveyard = async (limits: GraveyardSettings): Promise<GraveyardEntry[]> => {
+  const entries = await readGraveyard();
+  const pruned = pruneGraveyard(entries, limits);
+  if (pruned.length !== entries.length) await saveGraveyard(pruned);
+  return pruned;
+};
+
+// Reopens the entries in the order they were closed and drops them from the log
+export const reopenGraveyardEntries = async (ids: string[]): Promise<void> => {
+  const entries = await readGraveyard();
+  const selected = new Set(ids);
+  const toOpen = entries.filter(e => selected.has(e.id)).reverse();
+  if (!toOpen.length) return;
+
+  await openTabs(toOpen.map(e => e.url));
+  await saveGraveyard(entries.filter(e => !selected.has(e.id)));
+};
+
+export const deleteGraveyardEntries = async (ids: string[]): Promise<void> => {
+  const selected = new Set(ids);
+  await saveGraveyard((await readGraveyard()).filter(e => !selected.has(e.id)));
+};
+
+export const clearGraveyard = async (): Promise<void> => {
+  await saveGraveyard([]);
+};
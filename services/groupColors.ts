@@ -0,0 +1,18 @@
+import { TabGroupColor } from '../types';
+
+// Every color a Chrome tab group can have; Vivaldi shows a subset, see colorService
+export const GROUP_COLORS: TabGroupColor[] = ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan'];
+
+const DOT_CLASSES: Record<TabGroupColor, string> = {
+  grey: 'bg-slate-500',
+  blue: 'bg-blue-500',
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  pink: 'bg-pink-500',
+  purple: 'bg-purple-500',
+  cyan: 'bg-cyan-500',
+};
+
+// Tailwind class for a group's color dot; anything unknown shows as grey
+export const colorDotClass = (color: string): string => DOT_CLASSES[color as TabGroupColor] || 'bg-slate-500';
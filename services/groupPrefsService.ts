@@ -0,0 +1,74 @@
+import { GroupPrefs, ExistingGroup, ExistingGroupMode } from '../types';
+import { readStored, writeStored } from './storageService';
+
+// Also read by the service worker when auto-assigning new tabs and applying groups
+const STORAGE_KEY = 'espressobot_group_prefs';
+
+export const groupPrefKey = (title: string): string => title.trim().toLowerCase();
+
+type GroupRef = Pick<ExistingGroup, 'id' | 'title'>;
+
+// Placeholders getExistingGroups uses for groups without a title
+const UNTITLED_KEYS = new Set(['untitled group', 'untitled stack']);
+
+// Prefs are stored under the group id, which survives renames and keeps every
+// "Untitled group" apart. Named groups also get an entry under their title so a
+// choice comes back when a browser restart gives the group a new id.
+const prefKeysFor = (group: GroupRef): string[] => {
+  const titleKey = groupPrefKey(group.title);
+  return titleKey && !UNTITLED_KEYS.has(titleKey) ? [`id:${group.id}`, titleKey] : [`id:${group.id}`];
+};
+
+// The id entry wins over the title entry
+const prefsFor = (prefs: Record<string, GroupPrefs>, group: GroupRef): GroupPrefs =>
+  prefKeysFor(group).reduceRight<GroupPrefs>((merged, key) => ({ ...merged, ...prefs[key] }), {});
+
+export const loadGroupPrefs = (): Promise<Record<string, GroupPrefs>> =>
+  readStored(STORAGE_KEY, {});
+
+const saveGroupPrefs = (prefs: Record<string, GroupPrefs>): Promise<void> =>
+  writeStored(STORAGE_KEY, prefs);
+
+// Id entries of groups that are no longer open are dropped, so an id reused
+// after a restart never inherits an old choice
+export const updateGroupPrefs = async (
+  group: ExistingGroup,
+  patch: Partial<GroupPrefs>,
+  openGroups: ExistingGroup[]
+): Promise<void> => {
+  const prefs = await loadGroupPrefs();
+  const openIds = new Set(openGroups.map(g => `id:${g.id}`));
+  const kept = Object.fromEntries(Object.entries(prefs).filter(([key]) => !key.startsWith('id:') || openIds.has(key)));
+  const updated = { ...prefsFor(prefs, group), ...patch };
+  await saveGroupPrefs({ ...kept, ...Object.fromEntries(prefKeysFor(group).map(key => [key, updated])) });
+};
+
+// Tags the titles of groups the extension just created, so groups the user
+// made by hand can be told apart from them
+export const markGroupsCreated = async (titles: string[]): Promise<void> => {
+  if (!titles.length) return;
+  const prefs = await loadGroupPrefs();
+  for (const key of titles.map(groupPrefKey)) prefs[key] = { ...prefs[key], createdByExtension: true };
+  await saveGroupPrefs(prefs);
+};
+
+// Groups accept auto-assigned tabs unless switched off
+export const isSticky = (prefs: Record<string, GroupPrefs>, group: GroupRef): boolean =>
+  prefsFor(prefs, group).sticky !== false;
+
+export const isUserMade = (prefs: Record<string, GroupPrefs>, group: GroupRef): boolean =>
+  !prefsFor(prefs, group).createdByExtension;
+
+// The user's choice wins. The extension's own groups follow the "Keep existing
+// groups" setting; any other group is a merge target, never moved or dissolved,
+// since groups made by older versions carry no tag. Also used by the service worker.
+export const groupMode = (
+  prefs: Record<string, GroupPrefs>,
+  group: GroupRef,
+  keepExisting: boolean
+): ExistingGroupMode => {
+  const pref = prefsFor(prefs, group);
+  if (pref.mode) return pref.mode;
+  if (!pref.createdByExtension) return 'merge';
+  return keepExisting ? 'merge' : 'dissolve';
+};
@@ -0,0 +1,218 @@
+import { Tab, TabGroupProposal, TabGroupColor, ExistingGroup, CategorizationResult } from '../types';
+import { parseUrl } from './urlPatterns';
+
+// Second-level labels that are part of a public suffix (foo.co.uk, bar.com.au)
+const SECOND_LEVEL_SUFFIXES = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu', 'ne', 'or']);
+
+// Hosting domains where each subdomain belongs to a different owner
+const SHARED_HOSTS = new Set(['github.io', 'gitlab.io', 'vercel.app', 'netlify.app', 'pages.dev', 'herokuapp.com']);
+
+const CODE_HOSTS = new Set(['github.com', 'gitlab.com', 'bitbucket.org']);
+
+interface Category {
+  name: string;
+  color: TabGroupColor;
+  match: (host: string, path: string) => boolean;
+}
+
+const hostIs = (host: string, ...domains: string[]) =>
+  domains.some(d => host === d || host.endsWith(`.${d}`));
+
+// Checked in order; the first match wins
+const CATEGORIES: Category[] = [
+  {
+    name: '📬 Mail',
+    color: 'red',
+    match: (host) => host === 'mail.google.com' || hostIs(host, 'outlook.live.com', 'outlook.office.com', 'mail.yahoo.com', 'proton.me'),
+  },
+  {
+    name: '📅 Calendar & Meetings',
+    color: 'yellow',
+    match: (host) => host === 'calendar.google.com' || host === 'meet.google.com' || hostIs(host, 'zoom.us', 'teams.microsoft.com'),
+  },
+  {
+    name: '🎵 Media',
+    color: 'pink',
+    match: (host) => hostIs(host, 'youtube.com', 'youtu.be', 'vimeo.com', 'twitch.tv', 'spotify.com', 'soundcloud.com', 'netflix.com'),
+  },
+  {
+    name: '💬 Social',
+    color: 'cyan',
+    match: (host) => hostIs(host, 'x.com', 'twitter.com', 'reddit.com', 'linkedin.com', 'facebook.com', 'instagram.com', 'bsky.app', 'news.ycombinator.com'),
+  },
+  {
+    name: '🛒 Shopping',
+    color: 'green',
+    match: (host) => hostIs(host, 'amazon.com', 'amazon.ca', 'amazon.co.uk', 'ebay.com', 'etsy.com', 'aliexpress.com', 'bestbuy.com'),
+  },
+  {
+    name: '🤖 AI Tools',
+    color: 'purple',
+    match: (host) => hostIs(host, 'chatgpt.com', 'claude.ai', 'gemini.google.com', 'perplexity.ai', 'openrouter.ai'),
+  },
+  {
+    name: '📚 Docs',
+    color: 'blue',
+    match: (host, path) =>
+      /^(docs|developer|developers|devdocs|api|learn)\./.test(host) ||
+      hostIs(host, 'readthedocs.io', 'developer.mozilla.org', 'react.dev', 'tailwindcss.com', 'ai.google.dev') ||
+      /^\/(docs|documentation|reference|api|guide|guides)(\/|$)/.test(path),
+  },
+  {
+    name: '💡 Q&A',
+    color: 'yellow',
+    match: (host) => hostIs(host, 'stackoverflow.com', 'stackexchange.com', 'superuser.com', 'serverfault.com'),
+  },
+];
+
+const DOMAIN_PALETTE: TabGroupColor[] = ['blue', 'green', 'purple', 'cyan', 'yellow', 'pink', 'red', 'grey'];
+
+const TITLE_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'your', 'you', 'how', 'what', 'this', 'that', 'are', 'was',
+  'new', 'page', 'home', 'www', 'com', 'inbox', 'untitled', 'google', 'search', 'results', 'about',
+]);
+
+const MIN_GROUP_SIZE = 2;
+
+// Approximates the registrable domain (eTLD+1) without shipping the public suffix list.
+// IP addresses and localhost have no registrable part and come back as they are.
+export const registrableDomain = (hostname: string): string => {
+  if (hostname === 'localhost' || /^\d+(\.\d+){3}$/.test(hostname) || hostname.includes(':')) return hostname;
+  const labels = hostname.replace(/^www\./, '').split('.');
+  if (labels.length <= 2) return labels.join('.');
+  const lastTwo = labels.slice(-2).join('.');
+  if (SHARED_HOSTS.has(lastTwo)) return labels.slice(-3).join('.');
+  if (labels[labels.length - 1].length === 2 && SECOND_LEVEL_SUFFIXES.has(labels[labels.length - 2])) {
+    return labels.slice(-3).join('.');
+  }
+  return lastTwo;
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const domainColor = (domain: string): TabGroupColor => DOMAIN_PALETTE[hashString(domain) % DOMAIN_PALETTE.length];
+
+const titleKeywords = (title: string): string[] =>
+  [...new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= 3 && !TITLE_STOPWORDS.has(word) && !/^\d+$/.test(word))
+  )];
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Groups tabs without an AI model. Passes run from most to least specific:
+ * existing groups sharing a domain, code repositories, known site categories,
+ * registrable domain, then shared title keywords. A cluster only becomes a
+ * group once it has two tabs; anything left over is returned as unassigned.
+ */
+export const groupTabsLocally = (
+  tabs: Tab[],
+  existingGroups: ExistingGroup[] = [],
+  allTabs: Tab[] = tabs
+): CategorizationResult => {
+  const proposals: TabGroupProposal[] = [];
+  let remaining = tabs.filter(t => parseUrl(t.url));
+
+  const take = (
+    keyOf: (tab: Tab) => string | null,
+    toProposal: (key: string, members: Tab[]) => TabGroupProposal,
+    minSize = MIN_GROUP_SIZE
+  ) => {
+    const clusters = new Map<string, Tab[]>();
+    for (const tab of remaining) {
+      const key = keyOf(tab);
+      if (!key) continue;
+      if (!clusters.has(key)) clusters.set(key, []);
+      clusters.get(key)!.push(tab);
+    }
+    const used = new Set<number>();
+    for (const [key, members] of clusters) {
+      if (members.length < minSize) continue;
+      proposals.push(toProposal(key, members));
+      members.forEach(m => used.add(m.id));
+    }
+    remaining = remaining.filter(t => !used.has(t.id));
+  };
+
+  // 1. Existing groups: a new tab joins the group whose tabs share its domain
+  if (existingGroups.length) {
+    const tabById = new Map(allTabs.map(t => [t.id, t]));
+    const groupByDomain = new Map<string, ExistingGroup>();
+    for (const group of existingGroups) {
+      for (const id of group.tabIds) {
+        const url = parseUrl(tabById.get(id)?.url ?? '');
+        const domain = url && registrableDomain(url.hostname);
+        if (domain && !groupByDomain.has(domain)) groupByDomain.set(domain, group);
+      }
+    }
+    take(
+      tab => {
+        const domain = registrableDomain(parseUrl(tab.url)!.hostname);
+        return groupByDomain.get(domain)?.id ?? null;
+      },
+      (id, members) => {
+        const group = existingGroups.find(g => g.id === id)!;
+        return { groupName: group.title, color: group.color, tabIds: members.map(m => m.id), existingGroupId: group.id };
+      },
+      1
+    );
+  }
+
+  // 2. Code repositories: github.com/org/repo/... clusters by repo
+  take(
+    tab => {
+      const url = parseUrl(tab.url)!;
+      const host = url.hostname.replace(/^www\./, '');
+      const [owner, repo] = url.pathname.split('/').filter(Boolean);
+      return CODE_HOSTS.has(host) && owner && repo ? `${owner}/${repo}` : null;
+    },
+    (repo, members) => ({ groupName: `💻 ${repo}`, color: 'grey', tabIds: members.map(m => m.id) })
+  );
+
+  // 3. Known site categories
+  take(
+    tab => {
+      const url = parseUrl(tab.url)!;
+      const category = CATEGORIES.find(c => c.match(url.hostname.replace(/^www\./, ''), url.pathname));
+      return category?.name ?? null;
+    },
+    (name, members) => ({
+      groupName: name,
+      color: CATEGORIES.find(c => c.name === name)!.color,
+      tabIds: members.map(m => m.id),
+    })
+  );
+
+  // 4. Registrable domain
+  take(
+    tab => registrableDomain(parseUrl(tab.url)!.hostname),
+    (domain, members) => ({ groupName: `🌐 ${domain}`, color: domainColor(domain), tabIds: members.map(m => m.id) })
+  );
+
+  // 5. Shared title keywords, most common first
+  while (remaining.length >= MIN_GROUP_SIZE) {
+    const counts = new Map<string, number>();
+    for (const tab of remaining) {
+      for (const word of titleKeywords(tab.title)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    if (!best || best[1] < MIN_GROUP_SIZE) break;
+    const members = remaining.filter(t => titleKeywords(t.title).includes(best[0]));
+    proposals.push({ groupName: `🔖 ${capitalize(best[0])}`, color: domainColor(best[0]), tabIds: members.map(m => m.id) });
+    const used = new Set(members.map(m => m.id));
+    remaining = remaining.filter(t => !used.has(t.id));
+  }
+
+  const assigned = new Set(proposals.flatMap(p => p.tabIds));
+  return {
+    proposals,
+    unassignedTabIds: tabs.filter(t => !assigned.has(t.id)).map(t => t.id),
+  };
+};
@@ -0,0 +1,87 @@
+import { Tab, TabGroupProposal, LearnedCorrection, PrivacySettings } from '../types';
+import { parseUrl, hostMatches } from './urlPatterns';
+import { applyPrivacyFilter } from './privacyService';
+import { readStored, writeStored } from './storageService';
+
+// Also read by the service worker when it builds grouping requests
+const STORAGE_KEY = 'espressobot_learned_corrections';
+const MAX_CORRECTIONS = 200;
+const MAX_EXAMPLES = 8;
+
+const normalize = (name: string | null) => (name ?? '').trim().toLowerCase();
+
+// Removals are keyed by the group the tab was taken out of
+const correctionKey = (groupName: string | null, proposedGroup: string | null) =>
+  groupName ? normalize(groupName) : `!${normalize(proposedGroup)}`;
+
+export const correctionDomain = (url: string): string | null =>
+  parseUrl(url)?.hostname.toLowerCase().replace(/^www\./, '') || null;
+
+export const loadCorrections = (): Promise<LearnedCorrection[]> =>
+  readStored(STORAGE_KEY, []);
+
+const saveCorrections = (corrections: LearnedCorrection[]): Promise<void> =>
+  writeStored(STORAGE_KEY, corrections);
+
+export const deleteCorrection = async (id: string): Promise<void> => {
+  await saveCorrections((await loadCorrections()).filter(c => c.id !== id));
+};
+
+export const clearCorrections = async (): Promise<void> => {
+  await saveCorrections([]);
+};
+
+// What the engine proposed for each tab, kept so review edits can be diffed on apply
+export const proposedAssignments = (proposals: TabGroupProposal[]): Map<number, string> =>
+  new Map(proposals.flatMap(p => p.tabIds.map(id => [id, p.groupName] as [number, string])));
+
+/**
+ * Diffs the applied groups against what the engine proposed and stores every
+ * tab the user moved, removed or placed by hand. Withheld and masked tabs are
+ * skipped; the rest are stored as the privacy filter would send them.
+ */
+export const recordReviewEdits = async (
+  proposed: Map<number, string>,
+  applied: TabGroupProposal[],
+  tabs: Tab[],
+  privacy: PrivacySettings
+): Promise<void> => {
+  const final = proposedAssignments(applied);
+  const changed = tabs.filter(t =>
+    (proposed.has(t.id) || final.has(t.id)) && normalize(proposed.get(t.id) ?? null) !== normalize(final.get(t.id) ?? null)
+  );
+  const learnable = changed.filter(t => {
+    const host = parseUrl(t.url)?.hostname;
+    return host && !privacy.maskedDomains.some(p => hostMatches(host, p));
+  });
+  const { sendable } = applyPrivacyFilter(learnable, privacy);
+  if (!sendable.length) return;
+
+  let corrections = await loadCorrections();
+  for (const tab of sendable) {
+    const domain = correctionDomain(tab.url);
+    if (!domain) continue;
+    const groupName = final.get(tab.id) ?? null;
+    const proposedGroup = proposed.get(tab.id) ?? null;
+    const key = correctionKey(groupName, proposedGroup);
+    const existing = corrections.find(c => c.domain === domain && correctionKey(c.groupName, c.proposedGroup) === key);
+    const entry: LearnedCorrection = existing
+      ? { ...existing, title: tab.title, proposedGroup, count: existing.count + 1, updatedAt: Date.now() }
+      : { id: crypto.randomUUID(), domain, title: tab.title, groupName, proposedGroup, count: 1, updatedAt: Date.now() };
+    corrections = [entry, ...corrections.filter(c => c !== existing)];
+  }
+
+  await saveCorrections(corrections.slice(0, MAX_CORRECTIONS));
+};
+
+// Corrections for the sites in this batch, most repeated first
+export const relevantCorrections = (
+  corrections: LearnedCorrection[],
+  tabs: { url: string }[]
+): LearnedCorrection[] => {
+  const domains = new Set(tabs.map(t => correctionDomain(t.url)).filter(Boolean));
+  return corrections
+    .filter(c => domains.has(c.domain))
+    .sort((a, b) => b.count - a.count || b.updatedAt - a.updatedAt)
+    .slice(0, MAX_EXAMPLES);
+};
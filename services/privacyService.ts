@@ -0,0 +1,58 @@
+import { Tab, PrivacySettings } from '../types';
+import { parseUrl, hostMatches, matchesAnyPattern } from './urlPatterns';
+
+/**
+ * Splits tabs into what may be sent to the AI provider and what must stay
+ * local. Sendable tabs keep their IDs so proposals map back to real tabs, but
+ * their URLs and titles are redacted per the user's privacy settings.
+ */
+export const applyPrivacyFilter = (
+  tabs: Tab[],
+  privacy: PrivacySettings
+): { sendable: Tab[]; withheld: Tab[] } => {
+  const sendable: Tab[] = [];
+  const withheld: Tab[] = [];
+  const aliases = new Map<string, string>();
+
+  const aliasFor = (hostname: string) => {
+    if (!aliases.has(hostname)) aliases.set(hostname, `internal-${aliases.size + 1}`);
+    return aliases.get(hostname)!;
+  };
+
+  for (const tab of tabs) {
+    if (matchesAnyPattern(tab.url, privacy.denylist)) {
+      withheld.push(tab);
+      continue;
+    }
+
+    const url = parseUrl(tab.url);
+    if (!url) {
+      sendable.push({ id: tab.id, title: tab.title, url: '' });
+      continue;
+    }
+
+    const originalHost = url.hostname;
+    const masked = privacy.maskedDomains.some(p => hostMatches(originalHost, p));
+    if (privacy.stripQueryStrings) url.search = '';
+    if (privacy.stripFragments) url.hash = '';
+    url.username = '';
+    url.password = '';
+    let redactedUrl = url.toString();
+    if (masked) {
+      redactedUrl = redactedUrl.replace(url.host, aliasFor(originalHost));
+    }
+
+    let title = tab.title;
+    if (masked) {
+      title = title.split(originalHost).join(aliasFor(originalHost));
+    }
+    if (privacy.hiddenTitleDomains.some(p => hostMatches(originalHost, p))) {
+      title = masked ? aliasFor(originalHost) : originalHost;
+    }
+
+    // Only what the model needs: favicons and access times stay local
+    sendable.push({ id: tab.id, title, url: redactedUrl });
+  }
+
+  return { sendable, withheld };
+};
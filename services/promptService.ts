@@ -0,0 +1,106 @@
+import { PromptSettings, PaletteEntry, TabGroupColor, LearnedCorrection } from '../types';
+import { parsePatternList } from './urlPatterns';
+import { GROUP_COLORS } from './groupColors';
+
+const describeGroupCount = ({ minGroups, maxGroups }: PromptSettings): string | null => {
+  if (minGroups && maxGroups) return `Create between ${minGroups} and ${maxGroups} groups.`;
+  if (minGroups) return `Create at least ${minGroups} groups.`;
+  if (maxGroups) return `Create at most ${maxGroups} groups.`;
+  return null;
+};
+
+const describePalette = (palette: PaletteEntry[]): string | null =>
+  palette.length
+    ? `Preferred colors: ${palette.map(p => `${p.color} for ${p.theme}`).join(', ')}.`
+    : null;
+
+/**
+ * System prompt for one grouping request. User instructions come last so they
+ * can override the naming defaults, but not the assignment or output rules.
+ */
+export const buildSystemPrompt = (prompt: PromptSettings, hasKnownGroups: boolean): string => {
+  const rules = [
+    'Every tab ID must be assigned to exactly one group.',
+    "Avoid a 'Miscellaneous' group when possible.",
+    'Use specific group names with an emoji prefix.',
+    'Respond ONLY with valid JSON matching the provided schema.',
+    hasKnownGroups && "Some groups already exist. When a tab fits one, use that group's exact name. Only create a new group when no existing group fits.",
+    describeGroupCount(prompt),
+    describePalette(prompt.palette),
+  ].filter((rule): rule is string => !!rule);
+
+  const instructions = prompt.instructions.trim();
+  return `You are a tab organizer. Analyze browser tabs and group them into logical stacks.
+Rules:
+${rules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}${instructions ? `
+
+Instructions from the user (these take precedence over rules 2 and 3):
+${instructions}` : ''}`;
+};
+
+export const buildGroupingSchema = (prompt: PromptSettings) => {
+  const groups: Record<string, unknown> = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        groupName: {
+          type: 'string',
+          description: prompt.instructions.trim()
+            ? 'A short, descriptive name for the tab stack, following the user instructions in the system prompt.'
+            : "A short, descriptive name for the tab stack, preferably with an emoji prefix (e.g., '💻 Dev', '🎵 Media')."
+        },
+        color: {
+          type: 'string',
+          enum: GROUP_COLORS,
+          ...(prompt.palette.length ? { description: describePalette(prompt.palette) } : {}),
+        },
+        tabIds: {
+          type: 'array',
+          items: { type: 'integer' }
+        }
+      },
+      required: ['groupName', 'color', 'tabIds'],
+      additionalProperties: false
+    }
+  };
+  if (prompt.minGroups) groups.minItems = prompt.minGroups;
+  if (prompt.maxGroups) groups.maxItems = prompt.maxGroups;
+
+  return {
+    name: 'tab_groups',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: { groups },
+      required: ['groups'],
+      additionalProperties: false
+    }
+  };
+};
+
+// Few-shot examples from earlier review edits, appended to the user prompt
+export const describeCorrections = (corrections: LearnedCorrection[]): string =>
+  corrections.length
+    ? `\n\nCorrections the user made to earlier groupings. Follow them for similar tabs:\n${corrections.map(c =>
+        `- ${JSON.stringify(c.title)} (${c.domain}) → ${c.groupName ? JSON.stringify(c.groupName) : `not ${JSON.stringify(c.proposedGroup)}`}`
+      ).join('\n')}`
+    : '';
+
+// Settings edit the palette as "theme: color" lines; unknown colors are dropped
+export const parsePalette = (text: string): PaletteEntry[] =>
+  parsePatternList(text).flatMap(line => {
+    const colon = line.lastIndexOf(':');
+    if (colon <= 0) return [];
+    const color = line.slice(colon + 1).trim().toLowerCase() as TabGroupColor;
+    return GROUP_COLORS.includes(color) ? [{ theme: line.slice(0, colon).trim(), color }] : [];
+  });
+
+export const formatPalette = (palette: PaletteEntry[]): string =>
+  palette.map(entry => `${entry.theme}: ${entry.color}`).join('\n');
+
+// Empty or non-positive input means no limit
+export const parseGroupCount = (text: string): number | null => {
+  const value = parseInt(text, 10);
+  return value > 0 ? value : null;
+};
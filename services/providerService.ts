@@ -0,0 +1,95 @@
+import { ProviderConfig, ProviderId, Settings, GroupingResponse } from '../types';
+import { GROUP_COLORS } from './groupColors';
+
+export const PROVIDER_PRESETS: Record<ProviderId, { label: string; config: ProviderConfig }> = {
+  openrouter: {
+    label: 'OpenRouter',
+    config: { id: 'openrouter', baseUrl: 'https://openrouter.ai/api/v1', authStyle: 'bearer', responseFormat: 'json_schema' },
+  },
+  ollama: {
+    label: 'Ollama',
+    config: { id: 'ollama', baseUrl: 'http://localhost:11434/v1', authStyle: 'none', responseFormat: 'json_object' },
+  },
+  llamacpp: {
+    label: 'llama.cpp server',
+    config: { id: 'llamacpp', baseUrl: 'http://localhost:8080/v1', authStyle: 'none', responseFormat: 'json_schema' },
+  },
+  lmstudio: {
+    label: 'LM Studio',
+    config: { id: 'lmstudio', baseUrl: 'http://localhost:1234/v1', authStyle: 'none', responseFormat: 'json_schema' },
+  },
+  custom: {
+    label: 'Custom (OpenAI-compatible)',
+    config: { id: 'custom', baseUrl: 'http://localhost:8000/v1', authStyle: 'bearer', responseFormat: 'none' },
+  },
+};
+
+export const DEFAULT_PROVIDER: ProviderConfig = PROVIDER_PRESETS.openrouter.config;
+
+// Local servers usually run without auth, so a key is only needed when the provider sends one
+export const isProviderConfigured = (settings: Settings): boolean =>
+  settings.provider.authStyle === 'none' || !!settings.apiKey;
+
+export const buildChatRequest = (
+  settings: Settings,
+  messages: { role: string; content: string }[],
+  jsonSchema: object
+): { url: string; init: RequestInit } => {
+  const { provider } = settings;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider.authStyle === 'bearer') headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  if (provider.authStyle === 'api-key') headers['api-key'] = settings.apiKey;
+  if (provider.id === 'openrouter') {
+    headers['HTTP-Referer'] = 'https://github.com/pranavchavda/espressobot-tab-organizer';
+    headers['X-Title'] = 'EspressoBot Tab Organizer';
+  }
+
+  const body: Record<string, unknown> = {
+    model: settings.model,
+    messages,
+    temperature: 0.3,
+  };
+  if (provider.responseFormat === 'json_schema') {
+    body.response_format = { type: 'json_schema', json_schema: jsonSchema };
+  } else if (provider.responseFormat === 'json_object') {
+    body.response_format = { type: 'json_object' };
+  }
+
+  return {
+    url: `${provider.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    init: { method: 'POST', headers, body: JSON.stringify(body) },
+  };
+};
+
+// Without schema mode the model only sees the format in the prompt
+export const promptFormatInstructions = (settings: Settings): string =>
+  settings.provider.responseFormat === 'json_schema'
+    ? ''
+    : `\nOutput format: a single JSON object {"groups": [{"groupName": string, "color": one of ${GROUP_COLORS.join('|')}, "tabIds": integer[]}]}. No prose, no code fences.`;
+
+// Parses the model's message content and checks its structure, since providers
+// without schema mode can return fenced, partial or loosely typed JSON.
+// Colors are passed through as-is; validateGrouping reports and repairs them.
+export const parseGroupingContent = (content: string): GroupingResponse => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const raw = fenced ? fenced[1] : content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('AI returned invalid JSON. Try a different model or try again.');
+  }
+  if (!parsed || !Array.isArray(parsed.groups)) {
+    throw new Error('Invalid response structure from AI model.');
+  }
+
+  const groups = parsed.groups
+    .filter((g: any) => g && typeof g.groupName === 'string' && Array.isArray(g.tabIds))
+    .map((g: any) => ({
+      groupName: g.groupName,
+      color: g.color,
+      tabIds: g.tabIds.map((id: unknown) => Number(id)).filter((id: number) => Number.isInteger(id)),
+    }));
+  return { groups };
+};
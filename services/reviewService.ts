@@ -0,0 +1,75 @@
+import { Tab, TabGroupProposal, ReviewGroup, TabGroupColor, ExistingGroup } from '../types';
+
+// Edits to the proposed groups in the review screen. Every function returns a
+// new list so they can be used directly in React state updaters.
+
+// dataTransfer type for tabs dragged between groups and the ungrouped pool
+export const TAB_DRAG_TYPE = 'application/x-espressobot-tab';
+
+// Short "W1", "W2" tags shown next to tabs when the review spans several windows
+export const windowLabels = (tabs: Tab[]): Map<number, string> => {
+  const ids = [...new Set(tabs.flatMap(t => (t.windowId === undefined ? [] : [t.windowId])))].sort((a, b) => a - b);
+  return ids.length > 1 ? new Map(ids.map((id, i) => [id, `W${i + 1}`])) : new Map();
+};
+
+export const withReviewIds = (proposals: TabGroupProposal[]): ReviewGroup[] =>
+  proposals.map(p => ({ ...p, id: crypto.randomUUID() }));
+
+// First color from the palette no group uses yet, so new groups stand out
+const unusedColor = (groups: ReviewGroup[], palette: TabGroupColor[]): TabGroupColor => {
+  const used = new Set(groups.map(g => g.color));
+  return palette.find(c => !used.has(c)) ?? palette[groups.length % palette.length];
+};
+
+export const removeTab = (groups: ReviewGroup[], tabId: number): ReviewGroup[] =>
+  groups.map(g => (g.tabIds.includes(tabId) ? { ...g, tabIds: g.tabIds.filter(id => id !== tabId) } : g));
+
+export const removeTabs = (groups: ReviewGroup[], tabIds: number[]): ReviewGroup[] =>
+  groups.map(g => (g.tabIds.some(id => tabIds.includes(id)) ? { ...g, tabIds: g.tabIds.filter(id => !tabIds.includes(id)) } : g));
+
+// Moving into the group the tab is already in keeps it in place
+export const moveTab = (groups: ReviewGroup[], tabId: number, targetId: string): ReviewGroup[] => {
+  if (groups.find(g => g.id === targetId)?.tabIds.includes(tabId)) return groups;
+  return removeTab(groups, tabId).map(g => (g.id === targetId ? { ...g, tabIds: [...g.tabIds, tabId] } : g));
+};
+
+export const updateGroup = (groups: ReviewGroup[], id: string, patch: Partial<Pick<ReviewGroup, 'groupName' | 'color'>>): ReviewGroup[] =>
+  groups.map(g => (g.id === id ? { ...g, ...patch } : g));
+
+// The target keeps its name, color and existing-group link
+export const mergeGroups = (groups: ReviewGroup[], sourceId: string, targetId: string): ReviewGroup[] => {
+  const source = groups.find(g => g.id === sourceId);
+  if (!source || sourceId === targetId) return groups;
+  return groups
+    .filter(g => g.id !== sourceId)
+    .map(g => (g.id === targetId ? { ...g, tabIds: [...new Set([...g.tabIds, ...source.tabIds])] } : g));
+};
+
+// Moves the given tabs into a new group placed right after the original
+export const splitGroup = (groups: ReviewGroup[], id: string, tabIds: number[], palette: TabGroupColor[]): ReviewGroup[] => {
+  const index = groups.findIndex(g => g.id === id);
+  if (index === -1 || !tabIds.length) return groups;
+  const source = groups[index];
+  const split: ReviewGroup = {
+    id: crypto.randomUUID(),
+    groupName: `${source.groupName} (2)`,
+    color: unusedColor(groups, palette),
+    tabIds: source.tabIds.filter(tabId => tabIds.includes(tabId)),
+  };
+  const rest = { ...source, tabIds: source.tabIds.filter(tabId => !tabIds.includes(tabId)) };
+  return [...groups.slice(0, index), rest, split, ...groups.slice(index + 1)];
+};
+
+export const createGroup = (groups: ReviewGroup[], palette: TabGroupColor[]): ReviewGroup[] => [
+  ...groups,
+  { id: crypto.randomUUID(), groupName: 'New group', color: unusedColor(groups, palette), tabIds: [] },
+];
+
+// An empty entry for an existing group, so tabs can be dragged into it
+export const addExistingGroup = (groups: ReviewGroup[], existing: ExistingGroup): ReviewGroup[] =>
+  groups.some(g => g.existingGroupId === existing.id)
+    ? groups
+    : [...groups, { id: crypto.randomUUID(), groupName: existing.title, color: existing.color, tabIds: [], existingGroupId: existing.id }];
+
+export const deleteGroup = (groups: ReviewGroup[], id: string): ReviewGroup[] =>
+  groups.filter(g => g.id !== id);
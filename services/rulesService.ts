@@ -0,0 +1,74 @@
+import { Tab, GroupingRule, ExistingGroup, TabGroupProposal, CategorizationResult } from '../types';
+import { matchesUrlPattern, hostMatches, parseUrl } from './urlPatterns';
+import { attachExistingGroups } from './aiService';
+import { mergeSimilarGroups } from './batchService';
+
+export const newRule = (): GroupingRule => ({
+  id: crypto.randomUUID(),
+  matchType: 'url',
+  pattern: '',
+  groupName: '',
+  color: 'blue',
+});
+
+// Title patterns may be written bare or as /regex/
+const titleRegex = (pattern: string): RegExp | null => {
+  const trimmed = pattern.trim();
+  const source = trimmed.length > 2 && trimmed.startsWith('/') && trimmed.endsWith('/') ? trimmed.slice(1, -1) : trimmed;
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const ruleMatches = (tab: Tab, rule: GroupingRule): boolean => {
+  if (!rule.pattern.trim() || !rule.groupName.trim()) return false;
+  switch (rule.matchType) {
+    case 'url':
+      return matchesUrlPattern(tab.url, rule.pattern);
+    case 'title':
+      return titleRegex(rule.pattern)?.test(tab.title) ?? false;
+    case 'domain': {
+      const parsed = parseUrl(tab.url);
+      return !!parsed && hostMatches(parsed.hostname, rule.pattern.trim());
+    }
+  }
+};
+
+// Rules are checked top to bottom; the first match wins
+export const matchRule = (tab: Tab, rules: GroupingRule[]): GroupingRule | undefined =>
+  rules.find(rule => ruleMatches(tab, rule));
+
+/**
+ * Pre-assigns tabs that match a rule. Only the remaining tabs should be handed
+ * to the grouping engine; rule groups named like an existing group extend it.
+ */
+export const applyGroupingRules = (
+  tabs: Tab[],
+  rules: GroupingRule[],
+  existingGroups: ExistingGroup[]
+): { proposals: TabGroupProposal[]; remaining: Tab[] } => {
+  const byName = new Map<string, TabGroupProposal>();
+  const remaining: Tab[] = [];
+
+  for (const tab of tabs) {
+    const rule = matchRule(tab, rules);
+    if (!rule) {
+      remaining.push(tab);
+      continue;
+    }
+    const key = rule.groupName.trim().toLowerCase();
+    if (!byName.has(key)) byName.set(key, { groupName: rule.groupName.trim(), color: rule.color, tabIds: [] });
+    byName.get(key)!.tabIds.push(tab.id);
+  }
+
+  return { proposals: attachExistingGroups([...byName.values()], existingGroups), remaining };
+};
+
+// Rule groups go first so a similarly named engine group folds into them
+export const mergeRuleProposals = (ruleProposals: TabGroupProposal[], result: CategorizationResult): CategorizationResult => ({
+  ...result,
+  proposals: mergeSimilarGroups([...ruleProposals, ...result.proposals]),
+  ruleTabIds: ruleProposals.flatMap(p => p.tabIds),
+});
@@ -0,0 +1,44 @@
+import { Schedule, ScheduledTask, PendingReview } from '../types';
+
+declare var chrome: any;
+
+const hasExtensionRuntime = () =>
+  typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.sendMessage;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const newSchedule = (task: ScheduledTask): Schedule => ({
+  id: crypto.randomUUID(),
+  task,
+  enabled: true,
+  mode: task === 'cleanup' ? 'weekly' : 'interval',
+  intervalMinutes: 120,
+  days: [1, 2, 3, 4, 5],
+  time: '09:00',
+  requireConfirmation: true,
+});
+
+/**
+ * Returns the result of a scheduled run that is waiting for confirmation. It
+ * stays stored, and the action icon badged, until clearPendingReview is called
+ * once the user has applied or cancelled it.
+ */
+export const getPendingReview = async (): Promise<PendingReview | null> => {
+  if (!hasExtensionRuntime()) return null;
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getPendingReview' });
+    return (response?.success && response.review) || null;
+  } catch (err) {
+    console.warn('[TabOrganizer] Failed to read pending review:', err);
+    return null;
+  }
+};
+
+export const clearPendingReview = async (): Promise<void> => {
+  if (!hasExtensionRuntime()) return;
+  try {
+    await chrome.runtime.sendMessage({ action: 'clearPendingReview' });
+  } catch (err) {
+    console.warn('[TabOrganizer] Failed to clear pending review:', err);
+  }
+};
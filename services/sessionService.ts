@@ -0,0 +1,173 @@
+import { Session, SessionGroup, SavedTab, Tab, TabGroupProposal, ExistingGroup, ExportFormat, TabGroupColor } from '../types';
+import { openTabs, applyTabGroups } from './tabManager';
+import { GROUP_COLORS } from './groupColors';
+
+const toSavedTab = (tab: Tab): SavedTab => ({ url: tab.url, title: tab.title, favIconUrl: tab.favIconUrl });
+
+const buildSession = (groups: { name: string; color: TabGroupColor; tabIds: number[] }[], tabs: Tab[]): Session => {
+  const tabById = new Map(tabs.map(t => [t.id, t]));
+  const grouped = new Set(groups.flatMap(g => g.tabIds));
+  return {
+    version: 1,
+    exportedAt: Date.now(),
+    groups: groups
+      .map(g => ({
+        name: g.name,
+        color: g.color,
+        tabs: g.tabIds.map(id => tabById.get(id)).filter((t): t is Tab => !!t).map(toSavedTab),
+      }))
+      .filter(g => g.tabs.length > 0),
+    ungrouped: tabs.filter(t => !grouped.has(t.id)).map(toSavedTab),
+  };
+};
+
+export const sessionFromProposals = (proposals: TabGroupProposal[], tabs: Tab[]): Session =>
+  buildSession(proposals.map(p => ({ name: p.groupName, color: p.color, tabIds: p.tabIds })), tabs);
+
+export const sessionFromWindow = (groups: ExistingGroup[], tabs: Tab[]): Session =>
+  buildSession(groups.map(g => ({ name: g.title, color: g.color, tabIds: g.tabIds })), tabs);
+
+// --- Writers ---
+
+const escapeMarkdown = (text: string) => text.replace(/([\[\]\\])/g, '\\$1');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toMarkdown = (session: Session): string => {
+  const lines = [`# Tabs — ${new Date(session.exportedAt).toLocaleString()}`, ''];
+  const section = (heading: string, tabs: SavedTab[]) => {
+    lines.push(`## ${heading}`, '');
+    for (const tab of tabs) lines.push(`- [${escapeMarkdown(tab.title || tab.url)}](${tab.url})`);
+    lines.push('');
+  };
+  session.groups.forEach(g => section(g.name, g.tabs));
+  if (session.ungrouped.length) section('Ungrouped', session.ungrouped);
+  return lines.join('\n');
+};
+
+// Netscape bookmark file, the format every browser's "Import bookmarks" accepts
+const toBookmarkHtml = (session: Session): string => {
+  const stamp = Math.floor(session.exportedAt / 1000);
+  const link = (tab: SavedTab, indent: string) =>
+    `${indent}<DT><A HREF="${escapeHtml(tab.url)}" ADD_DATE="${stamp}">${escapeHtml(tab.title || tab.url)}</A>`;
+  const folder = (name: string, tabs: SavedTab[], indent: string) => [
+    `${indent}<DT><H3 ADD_DATE="${stamp}">${escapeHtml(name)}</H3>`,
+    `${indent}<DL><p>`,
+    ...tabs.map(t => link(t, `${indent}    `)),
+    `${indent}</DL><p>`,
+  ];
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...session.groups.flatMap(g => folder(g.name, g.tabs, '    ')),
+    ...session.ungrouped.map(t => link(t, '    ')),
+    '</DL><p>',
+    '',
+  ].join('\n');
+};
+
+const EXPORTERS: Record<ExportFormat, { write: (s: Session) => string; extension: string; mime: string }> = {
+  json: { write: s => JSON.stringify(s, null, 2), extension: 'json', mime: 'application/json' },
+  markdown: { write: toMarkdown, extension: 'md', mime: 'text/markdown' },
+  html: { write: toBookmarkHtml, extension: 'html', mime: 'text/html' },
+};
+
+export const exportSession = (session: Session, format: ExportFormat): void => {
+  const exporter = EXPORTERS[format];
+  const blob = new Blob([exporter.write(session)], { type: exporter.mime });
+  const url = URL.createObjectURL(blob);
+  const date = new Date(session.exportedAt).toISOString().slice(0, 10);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `tabs-${date}.${exporter.extension}`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Readers ---
+
+const isOpenableUrl = (url: unknown): url is string =>
+  typeof url === 'string' && /^(https?|ftp|file):/i.test(url);
+
+const parseSavedTabs = (value: unknown): SavedTab[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((t: any) => t && isOpenableUrl(t.url))
+    .map((t: any) => ({ url: t.url, title: typeof t.title === 'string' ? t.title : t.url, favIconUrl: t.favIconUrl }));
+
+const parseJsonSession = (text: string): Session => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!data || !Array.isArray(data.groups)) {
+    throw new Error('The file is not an exported tab session.');
+  }
+  return {
+    version: 1,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    groups: data.groups
+      .filter((g: any) => g && typeof g.name === 'string')
+      .map((g: any, idx: number): SessionGroup => ({
+        name: g.name,
+        color: GROUP_COLORS.includes(g.color) ? g.color : GROUP_COLORS[idx % GROUP_COLORS.length],
+        tabs: parseSavedTabs(g.tabs),
+      }))
+      .filter((g: SessionGroup) => g.tabs.length > 0),
+    ungrouped: parseSavedTabs(data.ungrouped),
+  };
+};
+
+// Every bookmark folder with links directly inside becomes a group; colors
+// are not part of the format, so they cycle through the palette.
+const parseBookmarkHtml = (text: string): Session => {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  const groups: SessionGroup[] = [];
+  const linksInFolders = new Set<Element>();
+
+  for (const heading of Array.from(doc.querySelectorAll('h3'))) {
+    const dt = heading.parentElement;
+    const list = dt?.querySelector(':scope > dl') ?? (dt?.nextElementSibling?.tagName === 'DL' ? dt.nextElementSibling : null);
+    if (!list) continue;
+    const anchors = Array.from(list.querySelectorAll(':scope > dt > a, :scope > p > dt > a'));
+    anchors.forEach(a => linksInFolders.add(a));
+    const tabs = parseSavedTabs(anchors.map(a => ({ url: a.getAttribute('href'), title: a.textContent?.trim() })));
+    if (tabs.length) {
+      groups.push({ name: heading.textContent?.trim() || 'Imported', color: GROUP_COLORS[groups.length % GROUP_COLORS.length], tabs });
+    }
+  }
+
+  const loose = Array.from(doc.querySelectorAll('a')).filter(a => !linksInFolders.has(a));
+  return {
+    version: 1,
+    exportedAt: Date.now(),
+    groups,
+    ungrouped: parseSavedTabs(loose.map(a => ({ url: a.getAttribute('href'), title: a.textContent?.trim() }))),
+  };
+};
+
+export const parseSessionFile = (text: string, fileName: string): Session => {
+  const looksLikeHtml = /\.html?$/i.test(fileName) || /^\s*<!DOCTYPE NETSCAPE/i.test(text);
+  const session = looksLikeHtml ? parseBookmarkHtml(text) : parseJsonSession(text);
+  if (!session.groups.length && !session.ungrouped.length) {
+    throw new Error('No tabs found in the file.');
+  }
+  return session;
+};
+
+// Reopens every tab and regroups them through the normal applyTabGroups path
+export const importSession = async (session: Session): Promise<void> => {
+  const groups: { groupName: string; color: string; tabIds: number[] }[] = [];
+  for (const group of session.groups) {
+    const tabIds = await openTabs(group.tabs.map(t => t.url));
+    if (tabIds.length) groups.push({ groupName: group.name, color: group.color, tabIds });
+  }
+  if (session.ungrouped.length) await openTabs(session.ungrouped.map(t => t.url));
+  if (groups.length) await applyTabGroups(groups);
+};
@@ -1,45 +1,90 @@
 import { Settings, DEFAULT_MODEL } from '../types';
-
-declare var chrome: any;
+import { DEFAULT_PROVIDER } from './providerService';
+import { DEFAULT_STALE_THRESHOLD_MS } from './cleanupService';
+import { readStored, writeStored, onStoredChange } from './storageService';
 
 const STORAGE_KEY = 'espressobot_settings';
 
-const hasExtensionStorage = () =>
-  typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local;
-
-export const loadSettings = async (): Promise<Settings> => {
-  if (hasExtensionStorage()) {
-    return new Promise((resolve) => {
-      chrome.storage.local.get(STORAGE_KEY, (result: any) => {
-        if (result[STORAGE_KEY]) {
-          resolve(result[STORAGE_KEY]);
-        } else {
-          resolve({
-            apiKey: process.env.OPENROUTER_API_KEY || '',
-            model: DEFAULT_MODEL,
-          });
-        }
-      });
-    });
-  }
+const defaultSettings = (): Settings => ({
+  apiKey: process.env.OPENROUTER_API_KEY || '',
+  model: DEFAULT_MODEL,
+  provider: DEFAULT_PROVIDER,
+  groupingEngine: 'ai',
+  localFallback: true,
+  incrementalOrganize: true,
+  privacy: {
+    stripQueryStrings: true,
+    stripFragments: true,
+    maskedDomains: [],
+    hiddenTitleDomains: ['mail.google.com', 'outlook.live.com', 'outlook.office.com'],
+    denylist: [],
+  },
+  cleanup: {
+    nearDuplicates: false,
+    siteIgnoredParams: [],
+    staleThresholdMs: DEFAULT_STALE_THRESHOLD_MS,
+    domainThresholds: [],
+    neverClose: [],
+    protectAudible: true,
+    protectActive: true,
+    protectGrouped: true,
+  },
+  graveyard: {
+    maxEntries: 500,
+    maxAgeMs: 30 * 24 * 60 * 60 * 1000,  // 30 days
+  },
+  schedules: [],
+  autoAssign: {
+    enabled: false,
+    useAI: false,
+  },
+  rules: [],
+  prompt: {
+    instructions: '',
+    minGroups: null,
+    maxGroups: null,
+    palette: [],
+    learnFromEdits: true,
+  },
+  windows: {
+    scope: 'current',
+    placement: 'in-place',
+  },
+  ordering: {
+    groupOrder: 'none',
+    tabOrder: 'none',
+  },
+  focus: {
+    collapseInactive: false,
+    idleCollapseMinutes: null,
+  },
+  bookmarks: {
+    parentFolderId: null,
+  },
+});
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
-  } catch {}
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
-  return {
-    apiKey: process.env.OPENROUTER_API_KEY || '',
-    model: DEFAULT_MODEL,
-  };
+// Settings saved by older versions lack newer fields, so always layer them over
+// the defaults. Nested sections (provider, privacy, ...) are merged one level deep.
+const withDefaults = (stored: Partial<Settings> | undefined): Settings => {
+  const defaults = defaultSettings() as unknown as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...defaults, ...(stored || {}) };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (isPlainObject(value) && isPlainObject(merged[key])) {
+      merged[key] = { ...value, ...(merged[key] as Record<string, unknown>) };
+    }
+  }
+  return merged as unknown as Settings;
 };
 
-export const saveSettings = async (settings: Settings): Promise<void> => {
-  if (hasExtensionStorage()) {
-    return new Promise((resolve) => {
-      chrome.storage.local.set({ [STORAGE_KEY]: settings }, resolve);
-    });
-  }
+export const loadSettings = async (): Promise<Settings> =>
+  withDefaults(await readStored<Partial<Settings> | undefined>(STORAGE_KEY, undefined));
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
-};
+export const saveSettings = (settings: Settings): Promise<void> =>
+  writeStored(STORAGE_KEY, settings);
+
+// Lets the service worker re-arm its alarms whenever the popup saves settings
+export const onSettingsSaved = (listener: () => void): void =>
+  onStoredChange(STORAGE_KEY, listener);
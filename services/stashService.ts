@@ -0,0 +1,52 @@
+import { StashedGroup, ExistingGroup, Tab } from '../types';
+import { applyCleanup, applyTabGroups, openTabs } from './tabManager';
+import { readStored, writeStored } from './storageService';
+
+const STORAGE_KEY = 'espressobot_stash';
+
+export const loadStash = (): Promise<StashedGroup[]> =>
+  readStored(STORAGE_KEY, []);
+
+const saveStash = (stash: StashedGroup[]): Promise<void> =>
+  writeStored(STORAGE_KEY, stash);
+
+// Saves the group's tabs to storage, then closes them. Closing goes through
+// applyCleanup so the stash itself can be undone.
+export const stashGroup = async (group: ExistingGroup, allTabs: Tab[]): Promise<StashedGroup> => {
+  const tabById = new Map(allTabs.map(t => [t.id, t]));
+  const members = group.tabIds.map(id => tabById.get(id)).filter((t): t is Tab => !!t && !!t.url);
+  if (!members.length) throw new Error(`"${group.title}" has no tabs to stash.`);
+
+  const stashed: StashedGroup = {
+    id: crypto.randomUUID(),
+    name: group.title,
+    color: group.color,
+    createdAt: Date.now(),
+    tabs: members.map(t => ({ url: t.url, title: t.title, favIconUrl: t.favIconUrl })),
+  };
+  await saveStash([stashed, ...(await loadStash())]);
+  await applyCleanup(members.map(t => t.id), [], [], Object.fromEntries(members.map(t => [t.id, 'stashed'])));
+  return stashed;
+};
+
+// Reopens the tabs and groups them through the normal applyTabGroups path,
+// so they come back as a Chrome group or a Vivaldi stack.
+export const restoreStashedGroup = async (id: string): Promise<void> => {
+  const stash = await loadStash();
+  const stashed = stash.find(s => s.id === id);
+  if (!stashed) throw new Error('Stashed group not found.');
+
+  const tabIds = await openTabs(stashed.tabs.map(t => t.url));
+  await applyTabGroups([{ groupName: stashed.name, color: stashed.color, tabIds }]);
+  await saveStash(stash.filter(s => s.id !== id));
+};
+
+export const renameStashedGroup = async (id: string, name: string): Promise<void> => {
+  const stash = await loadStash();
+  await saveStash(stash.map(s => (s.id === id ? { ...s, name } : s)));
+};
+
+export const deleteStashedGroup = async (id: string): Promise<void> => {
+  const stash = await loadStash();
+  await saveStash(stash.filter(s => s.id !== id));
+};
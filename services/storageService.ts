@@ -0,0 +1,51 @@
+declare var chrome: any;
+
+// chrome.storage.local inside the extension and its service worker; localStorage
+// when the popup runs as a plain page (npm run dev)
+const hasExtensionStorage = () =>
+  typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local;
+
+export const readStored = async <T>(key: string, fallback: T): Promise<T> => {
+  if (hasExtensionStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.get(key, (result: any) => {
+        resolve(result[key] ?? fallback);
+      });
+    });
+  }
+
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored);
+  } catch {}
+  return fallback;
+};
+
+export const writeStored = async <T>(key: string, value: T): Promise<void> => {
+  if (hasExtensionStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.set({ [key]: value }, resolve);
+    });
+  }
+
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const removeStored = async (key: string): Promise<void> => {
+  if (hasExtensionStorage()) {
+    return new Promise((resolve) => {
+      chrome.storage.local.remove(key, resolve);
+    });
+  }
+
+  localStorage.removeItem(key);
+};
+
+// Calls the listener whenever another context writes the key. localStorage has no
+// such event within one page, so outside the extension this does nothing.
+export const onStoredChange = (key: string, listener: () => void): void => {
+  if (!hasExtensionStorage()) return;
+  chrome.storage.onChanged.addListener((changes: Record<string, unknown>, area: string) => {
+    if (area === 'local' && changes[key]) listener();
+  });
+};
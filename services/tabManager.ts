@@ -1,29 +1,39 @@
-import { Tab, GroupingStrategy } from '../types';
+import { Tab, GroupingStrategy, ExistingGroup, UndoEntry, ClosedTabReason, WindowScope, WindowSettings } from '../types';
 
 declare var chrome: any;
 
 // Mock data for web preview when chrome API is missing
 const NOW = Date.now();
 const MOCK_TABS: Tab[] = [
-  { id: 1, title: 'React Documentation', url: 'https://react.dev', favIconUrl: 'https://react.dev/favicon.ico', lastAccessed: NOW - 5 * 60 * 1000 },
-  { id: 2, title: 'Tailwind CSS - Utility-First', url: 'https://tailwindcss.com', favIconUrl: 'https://tailwindcss.com/favicon.ico', lastAccessed: NOW - 20 * 60 * 1000 },
-  { id: 3, title: 'YouTube - LoFi Girl', url: 'https://youtube.com/watch?v=5qap5aO4i9A', favIconUrl: 'https://www.youtube.com/s/desktop/favicon.ico', lastAccessed: NOW - 3 * 60 * 60 * 1000 },
-  { id: 4, title: 'Gmail - Inbox (2)', url: 'https://mail.google.com', favIconUrl: 'https://ssl.gstatic.com/ui/v1/icons/mail/rfr/gmail.ico', lastAccessed: NOW - 10 * 60 * 1000 },
-  { id: 5, title: 'Google Gemini API Docs', url: 'https://ai.google.dev', favIconUrl: 'https://www.gstatic.com/devrel-devsite/prod/v45f6/google/images/favicon.png', lastAccessed: NOW - 8 * 60 * 60 * 1000 },
-  { id: 6, title: 'Stack Overflow - How to center div', url: 'https://stackoverflow.com/questions/12345', favIconUrl: 'https://cdn.sstatic.net/Sites/stackoverflow/Img/favicon.ico', lastAccessed: NOW - 25 * 60 * 60 * 1000 },
-  { id: 7, title: 'Spotify - Web Player', url: 'https://open.spotify.com', favIconUrl: 'https://open.spotify.com/favicon.ico', lastAccessed: NOW - 2 * 60 * 1000 },
-  { id: 8, title: 'GitHub - google/genai-js', url: 'https://github.com/google/genai-js', favIconUrl: 'https://github.com/fluidicon.png', lastAccessed: NOW - 4 * 60 * 60 * 1000 },
+  { id: 1, title: 'React Documentation', url: 'https://react.dev', favIconUrl: 'https://react.dev/favicon.ico', lastAccessed: NOW - 5 * 60 * 1000, active: true, windowId: 1 },
+  { id: 2, title: 'Tailwind CSS - Utility-First', url: 'https://tailwindcss.com', favIconUrl: 'https://tailwindcss.com/favicon.ico', lastAccessed: NOW - 20 * 60 * 1000, windowId: 1 },
+  { id: 3, title: 'YouTube - LoFi Girl', url: 'https://youtube.com/watch?v=5qap5aO4i9A', favIconUrl: 'https://www.youtube.com/s/desktop/favicon.ico', lastAccessed: NOW - 3 * 60 * 60 * 1000, windowId: 1 },
+  { id: 4, title: 'Gmail - Inbox (2)', url: 'https://mail.google.com', favIconUrl: 'https://ssl.gstatic.com/ui/v1/icons/mail/rfr/gmail.ico', lastAccessed: NOW - 10 * 60 * 1000, windowId: 1 },
+  { id: 5, title: 'Google Gemini API Docs', url: 'https://ai.google.dev', favIconUrl: 'https://www.gstatic.com/devrel-devsite/prod/v45f6/google/images/favicon.png', lastAccessed: NOW - 8 * 60 * 60 * 1000, windowId: 1 },
+  { id: 6, title: 'Stack Overflow - How to center div', url: 'https://stackoverflow.com/questions/12345', favIconUrl: 'https://cdn.sstatic.net/Sites/stackoverflow/Img/favicon.ico', lastAccessed: NOW - 25 * 60 * 60 * 1000, windowId: 1 },
+  { id: 7, title: 'Spotify - Web Player', url: 'https://open.spotify.com', favIconUrl: 'https://open.spotify.com/favicon.ico', lastAccessed: NOW - 5 * 60 * 60 * 1000, audible: true, windowId: 2 },
+  { id: 8, title: 'GitHub - google/genai-js', url: 'https://github.com/google/genai-js', favIconUrl: 'https://github.com/fluidicon.png', lastAccessed: NOW - 4 * 60 * 60 * 1000, windowId: 2 },
 ];
 
+// Chrome tab group id or Vivaldi stack id, undefined when the tab is ungrouped
+const tabGroupId = (t: any): string | undefined => {
+  if (typeof t.groupId === 'number' && t.groupId !== -1) return String(t.groupId);
+  try {
+    return t.vivExtData ? JSON.parse(t.vivExtData).group || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 // Check if we're in an extension context with service worker support
 const hasExtensionRuntime = () =>
   typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.sendMessage;
 
-export const getOpenTabs = async (): Promise<Tab[]> => {
+export const getOpenTabs = async (scope: WindowScope = 'current'): Promise<Tab[]> => {
   // Try using service worker first (more reliable)
   if (hasExtensionRuntime()) {
     try {
-      const response = await chrome.runtime.sendMessage({ action: 'getTabs' });
+      const response = await chrome.runtime.sendMessage({ action: 'getTabs', scope });
       if (response?.success) {
         return response.tabs;
       }
@@ -36,13 +46,18 @@ export const getOpenTabs = async (): Promise<Tab[]> => {
   // Fallback: Direct API call (works but popup context may be invalidated)
   if (typeof chrome !== 'undefined' && chrome.tabs && chrome.tabs.query) {
     return new Promise((resolve) => {
-      chrome.tabs.query({ currentWindow: true, pinned: false }, (tabs: any[]) => {
+      const query = scope === 'all' ? { windowType: 'normal' } : { currentWindow: true };
+      chrome.tabs.query({ ...query, pinned: false }, (tabs: any[]) => {
         const mappedTabs = tabs.map((t) => ({
           id: t.id || 0,
+          windowId: t.windowId,
           title: t.title || 'Untitled',
           url: t.url || '',
           favIconUrl: t.favIconUrl,
           lastAccessed: t.lastAccessed ?? Date.now(),
+          audible: !!t.audible,
+          active: !!t.active,
+          groupId: tabGroupId(t),
         })).filter(t =>
           t.url &&
           !t.url.startsWith('chrome://') &&
@@ -58,7 +73,7 @@ export const getOpenTabs = async (): Promise<Tab[]> => {
 
   // Fallback for web preview
   console.warn('[TabOrganizer] Chrome API not found. Using mock data.');
-  return Promise.resolve(MOCK_TABS);
+  return Promise.resolve(MOCK_TABS.filter(t => scope === 'all' || t.windowId === 1));
 };
 
 export const getGroupingStrategy = async (): Promise<GroupingStrategy> => {
@@ -75,7 +90,25 @@ export const getGroupingStrategy = async (): Promise<GroupingStrategy> => {
   return 'unsupported';
 };
 
-export const applyTabGroups = async (groups: { groupName: string; tabIds: number[]; color: string }[]): Promise<void> => {
+export const getExistingGroups = async (scope: WindowScope = 'current'): Promise<ExistingGroup[]> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getExistingGroups', scope });
+      if (response?.success) {
+        return response.groups;
+      }
+      console.warn('[TabOrganizer] Service worker getExistingGroups failed:', response?.error);
+    } catch (err) {
+      console.warn('[TabOrganizer] Failed to get existing groups:', err);
+    }
+    return [];
+  }
+
+  // Web preview: no groups exist yet
+  return [];
+};
+
+export const applyTabGroups = async (groups: { groupName: string; tabIds: number[]; color: string; existingGroupId?: string }[]): Promise<void> => {
   console.log('[TabOrganizer] Applying groups via service worker...');
 
   // Use service worker to avoid "Extension context invalidated" errors
@@ -104,21 +137,54 @@ export const applyTabGroups = async (groups: { groupName: string; tabIds: number
   await new Promise(resolve => setTimeout(resolve, 1000));
 };
 
+// Opens the URLs as background tabs in the current window and returns their IDs in order
+export const openTabs = async (urls: string[]): Promise<number[]> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'openTabs', urls });
+      if (!response?.success) {
+        throw new Error(response?.error || 'openTabs failed');
+      }
+      return response.tabIds;
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error('[TabOrganizer] openTabs service worker error:', errMsg);
+      throw new Error(`Failed to open tabs: ${errMsg}`);
+    }
+  }
+  // Web preview mock
+  console.log('[TabOrganizer] Mock openTabs:', urls);
+  return urls.map((_, i) => 1000 + i);
+};
+
+// Closed tabs are logged to the graveyard under closeReasons (default "manual").
+// The window options say where the tabs came from and where the groups should go.
+// Tabs still in a dissolved group are ungrouped before the new groups are applied.
+// Returns the number of tabs actually discarded (the active tab can't be).
 export const applyCleanup = async (
   tabIdsToClose: number[],
-  groups: { groupName: string; tabIds: number[]; color: string }[]
-): Promise<void> => {
+  groups: { groupName: string; tabIds: number[]; color: string; existingGroupId?: string }[],
+  tabIdsToDiscard: number[] = [],
+  closeReasons: Record<number, ClosedTabReason> = {},
+  windows: WindowSettings = { scope: 'current', placement: 'in-place' },
+  dissolveGroupIds: string[] = []
+): Promise<number> => {
   if (hasExtensionRuntime()) {
     try {
       const response = await chrome.runtime.sendMessage({
         action: 'applyCleanup',
         tabIdsToClose,
         groups,
+        tabIdsToDiscard,
+        closeReasons,
+        scope: windows.scope,
+        placement: windows.placement,
+        dissolveGroupIds,
       });
       if (!response?.success) {
         throw new Error(response?.error || 'applyCleanup failed');
       }
-      return;
+      return response.discarded ?? 0;
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
       console.error('[TabOrganizer] applyCleanup service worker error:', errMsg);
@@ -126,6 +192,80 @@ export const applyCleanup = async (
     }
   }
   // Web preview mock
-  console.log('[TabOrganizer] Mock applyCleanup:', { tabIdsToClose, groups });
+  console.log('[TabOrganizer] Mock applyCleanup:', { tabIdsToClose, groups, tabIdsToDiscard, dissolveGroupIds });
+  await new Promise(resolve => setTimeout(resolve, 800));
+  return tabIdsToDiscard.length;
+};
+
+// Switches to the group and collapses the others in its window (Chrome only)
+export const focusGroup = async (groupId: string): Promise<void> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'focusGroup', groupId });
+      if (!response?.success) {
+        throw new Error(response?.error || 'focusGroup failed');
+      }
+      return;
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error('[TabOrganizer] focusGroup service worker error:', errMsg);
+      throw new Error(`Failed to focus group: ${errMsg}`);
+    }
+  }
+  // Web preview mock
+  console.log('[TabOrganizer] Mock focusGroup:', groupId);
+};
+
+// Moves the tabs of every other window into the focused one; returns how many moved
+export const mergeAllWindows = async (): Promise<number> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'mergeWindows' });
+      if (!response?.success) {
+        throw new Error(response?.error || 'mergeWindows failed');
+      }
+      return response.moved ?? 0;
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error('[TabOrganizer] mergeWindows service worker error:', errMsg);
+      throw new Error(`Failed to merge windows: ${errMsg}`);
+    }
+  }
+  console.log('[TabOrganizer] Mock mergeAllWindows');
+  return 0;
+};
+
+export const getUndoHistory = async (): Promise<UndoEntry[]> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getUndoHistory' });
+      if (response?.success) {
+        return response.history;
+      }
+      console.warn('[TabOrganizer] Service worker getUndoHistory failed:', response?.error);
+    } catch (err) {
+      console.warn('[TabOrganizer] Failed to get undo history:', err);
+    }
+  }
+  // Web preview: nothing is ever applied, so nothing to undo
+  return [];
+};
+
+// Reverts the given operation, or the most recent one when no id is passed
+export const undoOperation = async (snapshotId?: string): Promise<void> => {
+  if (hasExtensionRuntime()) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'undoOperation', snapshotId });
+      if (!response?.success) {
+        throw new Error(response?.error || 'undoOperation failed');
+      }
+      return;
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error('[TabOrganizer] undoOperation service worker error:', errMsg);
+      throw new Error(`Failed to undo: ${errMsg}`);
+    }
+  }
+  console.log('[TabOrganizer] Mock undoOperation:', snapshotId);
   await new Promise(resolve => setTimeout(resolve, 800));
 };
@@ -0,0 +1,59 @@
+// Shared matching for user-entered URL patterns:
+//   "example.com"            the domain and all its subdomains
+//   "*.example.com"          subdomains only
+//   "example.com/admin/*"    host plus a path prefix (glob)
+//   "/regex/"                a regular expression tested against the full URL
+
+const escapeRegex = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegex = (glob: string) =>
+  new RegExp(`^${glob.split('*').map(escapeRegex).join('.*')}$`, 'i');
+
+export const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+export const hostMatches = (hostname: string, pattern: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  const p = pattern.toLowerCase().replace(/^www\./, '');
+  if (p.startsWith('*.')) return host.endsWith(p.slice(1));
+  if (p.includes('*')) return globToRegex(p).test(host);
+  return host === p || host.endsWith(`.${p}`);
+};
+
+export const matchesUrlPattern = (url: string, pattern: string): boolean => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+
+  if (trimmed.length > 2 && trimmed.startsWith('/') && trimmed.endsWith('/')) {
+    try {
+      return new RegExp(trimmed.slice(1, -1), 'i').test(url);
+    } catch {
+      return false;
+    }
+  }
+
+  const parsed = parseUrl(url);
+  if (!parsed) return false;
+
+  const slash = trimmed.indexOf('/');
+  if (slash === -1) return hostMatches(parsed.hostname, trimmed);
+
+  const hostPattern = trimmed.slice(0, slash);
+  const pathPattern = trimmed.slice(slash);
+  if (!hostMatches(parsed.hostname, hostPattern)) return false;
+  return pathPattern.includes('*')
+    ? globToRegex(pathPattern).test(parsed.pathname)
+    : parsed.pathname.startsWith(pathPattern);
+};
+
+export const matchesAnyPattern = (url: string, patterns: string[]): boolean =>
+  patterns.some(p => matchesUrlPattern(url, p));
+
+// Settings store pattern lists as one entry per line in a textarea
+export const parsePatternList = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
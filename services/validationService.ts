@@ -0,0 +1,105 @@
+import { TabGroupProposal, GroupingValidation } from '../types';
+import { GROUP_COLORS } from './groupColors';
+
+const normalizeGroupName = (name: string) => name.trim().toLowerCase();
+
+export const validateGrouping = (groups: TabGroupProposal[], tabIds: number[]): GroupingValidation => {
+  const known = new Set(tabIds);
+  const seen = new Set<number>();
+  const unknown = new Set<number>();
+  const duplicates = new Set<number>();
+  const emptyGroups: string[] = [];
+  const invalidColors: string[] = [];
+
+  for (const group of groups) {
+    let validCount = 0;
+    for (const id of group.tabIds) {
+      if (!known.has(id)) {
+        unknown.add(id);
+        continue;
+      }
+      if (seen.has(id)) {
+        duplicates.add(id);
+        continue;
+      }
+      seen.add(id);
+      validCount++;
+    }
+    if (validCount === 0) emptyGroups.push(group.groupName);
+    if (!GROUP_COLORS.includes(group.color)) invalidColors.push(group.groupName);
+  }
+
+  return {
+    unknownTabIds: [...unknown],
+    missingTabIds: tabIds.filter(id => !seen.has(id)),
+    duplicateTabIds: [...duplicates],
+    emptyGroups,
+    invalidColors,
+  };
+};
+
+export const hasGroupingProblems = (v: GroupingValidation): boolean =>
+  v.unknownTabIds.length > 0 ||
+  v.missingTabIds.length > 0 ||
+  v.duplicateTabIds.length > 0 ||
+  v.emptyGroups.length > 0 ||
+  v.invalidColors.length > 0;
+
+// Deterministic repair: drop unknown IDs, keep each tab in the first group that
+// claims it, fall back to grey for bad colors, drop empty groups and report
+// whatever is still unassigned.
+export const repairGrouping = (
+  groups: TabGroupProposal[],
+  tabIds: number[]
+): { groups: TabGroupProposal[]; unassignedTabIds: number[] } => {
+  const known = new Set(tabIds);
+  const assigned = new Set<number>();
+
+  const repaired = groups
+    .map(group => {
+      const ids = group.tabIds.filter(id => {
+        if (!known.has(id) || assigned.has(id)) return false;
+        assigned.add(id);
+        return true;
+      });
+      return {
+        ...group,
+        color: GROUP_COLORS.includes(group.color) ? group.color : 'grey',
+        tabIds: ids,
+      };
+    })
+    .filter(group => group.tabIds.length > 0);
+
+  return { groups: repaired, unassignedTabIds: tabIds.filter(id => !assigned.has(id)) };
+};
+
+// Folds the groups from a correction request into the original proposals by name
+export const mergeCorrection = (
+  groups: TabGroupProposal[],
+  correction: TabGroupProposal[]
+): TabGroupProposal[] => {
+  const merged = groups.map(g => ({ ...g, tabIds: [...g.tabIds] }));
+  const byName = new Map(merged.map(g => [normalizeGroupName(g.groupName), g]));
+  for (const extra of correction) {
+    const target = byName.get(normalizeGroupName(extra.groupName));
+    if (target) {
+      target.tabIds.push(...extra.tabIds);
+    } else {
+      const added = { ...extra, tabIds: [...extra.tabIds] };
+      merged.push(added);
+      byName.set(normalizeGroupName(added.groupName), added);
+    }
+  }
+  return merged;
+};
+
+export const describeValidation = (v: GroupingValidation): string[] => {
+  const notes: string[] = [];
+  const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? 's' : ''}`;
+  if (v.unknownTabIds.length) notes.push(`Ignored ${plural(v.unknownTabIds.length, 'unknown tab ID')}.`);
+  if (v.duplicateTabIds.length) notes.push(`${plural(v.duplicateTabIds.length, 'tab')} proposed for more than one group; kept the first.`);
+  if (v.emptyGroups.length) notes.push(`Dropped ${plural(v.emptyGroups.length, 'empty group')}.`);
+  if (v.invalidColors.length) notes.push(`Reset ${plural(v.invalidColors.length, 'invalid color')} to grey.`);
+  if (v.missingTabIds.length) notes.push(`AI skipped ${plural(v.missingTabIds.length, 'tab')}.`);
+  return notes;
+};
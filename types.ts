@@ -4,11 +4,31 @@ export interface Tab {
   url: string;
   favIconUrl?: string;
   lastAccessed?: number;  // ms since epoch, returned by Chrome tabs API
+  audible?: boolean;
+  active?: boolean;
+  groupId?: string;       // Chrome tab group id or Vivaldi stack id, absent when ungrouped
+  windowId?: number;
 }
 
+export type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan';
+
 export interface TabGroupProposal {
   groupName: string;
-  color: 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan';
+  color: TabGroupColor;
+  tabIds: number[];
+  existingGroupId?: string;  // set when the tabs are slotted into a group that already exists
+}
+
+// A proposal being edited in review; the id stays put through renames and merges
+export interface ReviewGroup extends TabGroupProposal {
+  id: string;
+}
+
+// A tab group (Chrome) or tab stack (Vivaldi) already present in the window
+export interface ExistingGroup {
+  id: string;  // Chrome tabGroup id (stringified) or Vivaldi stack UUID
+  title: string;
+  color: TabGroupColor;
   tabIds: number[];
 }
 
@@ -16,6 +36,28 @@ export interface GroupingResponse {
   groups: TabGroupProposal[];
 }
 
+// Problems found in a model response before it reaches the review screen
+export interface GroupingValidation {
+  unknownTabIds: number[];    // IDs the model invented
+  missingTabIds: number[];    // tabs the model never assigned
+  duplicateTabIds: number[];  // tabs placed in more than one group
+  emptyGroups: string[];      // group names with no valid tabs
+  invalidColors: string[];    // group names whose color is not a tab group color
+}
+
+export interface CategorizationProgress {
+  batch: number;         // 1-based batch currently being categorized
+  totalBatches: number;
+}
+
+export interface CategorizationResult {
+  proposals: TabGroupProposal[];
+  unassignedTabIds: number[];  // shown in the "Unsorted" bucket during review
+  withheldTabIds?: number[];   // kept out of the AI payload by the privacy filter
+  ruleTabIds?: number[];       // placed by a user rule rather than the engine
+  validation?: GroupingValidation;
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
@@ -23,21 +65,288 @@ export enum AppState {
   APPLYING = 'APPLYING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
-  SETTINGS = 'SETTINGS'
+  SETTINGS = 'SETTINGS',
+  STASH = 'STASH',
+  GRAVEYARD = 'GRAVEYARD'
 }
 
 export type GroupingStrategy = 'chrome-groups' | 'vivaldi-stacks' | 'unsupported';
 
+export type ProviderId = 'openrouter' | 'ollama' | 'llamacpp' | 'lmstudio' | 'custom';
+
+export type AuthHeaderStyle = 'bearer' | 'api-key' | 'none';
+
+// How the provider is asked for structured output:
+// json_schema = strict schema mode, json_object = any JSON, none = JSON requested in the prompt only
+export type ResponseFormatMode = 'json_schema' | 'json_object' | 'none';
+
+export interface ProviderConfig {
+  id: ProviderId;
+  baseUrl: string;  // OpenAI-compatible base URL, e.g. https://openrouter.ai/api/v1
+  authStyle: AuthHeaderStyle;
+  responseFormat: ResponseFormatMode;
+}
+
+// Redaction applied to tabs before they are sent to the AI provider.
+// Domain lists accept the patterns described in services/urlPatterns.ts.
+export interface PrivacySettings {
+  stripQueryStrings: boolean;
+  stripFragments: boolean;
+  maskedDomains: string[];   // hostnames replaced with a stable alias like "internal-1"
+  hiddenTitleDomains: string[];  // titles replaced with the hostname (e.g. Gmail subjects)
+  denylist: string[];        // tabs never sent to the AI at all
+}
+
+// ai = send tabs to the configured provider, local = offline heuristics only
+export type GroupingEngine = 'ai' | 'local';
+
+// current = the focused window only, all = every normal window
+export type WindowScope = 'current' | 'all';
+
+// Where applied groups end up: where their tabs are, all in the focused window, or one window each
+export type WindowPlacement = 'in-place' | 'single-window' | 'window-per-group';
+
+export interface WindowSettings {
+  scope: WindowScope;
+  placement: WindowPlacement;
+}
+
+// How groups are arranged after applying; none keeps the strip as the browser left it
+export type GroupOrder = 'none' | 'review' | 'size' | 'name' | 'recent';
+
+export type TabOrder = 'none' | 'domain' | 'title' | 'recent';
+
+export interface OrderSettings {
+  groupOrder: GroupOrder;
+  tabOrder: TabOrder;  // within each group
+}
+
+export interface BookmarkSettings {
+  parentFolderId: string | null;  // where saved groups get their folders; null = "Other bookmarks"
+}
+
+// Chrome groups only; Vivaldi offers no way to collapse stacks
+export interface FocusSettings {
+  collapseInactive: boolean;  // keep only the active tab's group expanded
+  idleCollapseMinutes: number | null;  // collapse groups unused this long; null = never
+}
+
+// Deterministic routing applied before any grouping engine runs:
+// url = urlPatterns syntax, title = regular expression, domain = host and subdomains
+export type RuleMatchType = 'url' | 'title' | 'domain';
+
+export interface GroupingRule {
+  id: string;
+  matchType: RuleMatchType;
+  pattern: string;
+  groupName: string;
+  color: TabGroupColor;
+}
+
+// New tabs are matched against existing groups by the service worker
+export interface AutoAssignSettings {
+  enabled: boolean;
+  useAI: boolean;  // ask the model when the URL cache has no match
+}
+
+// A color the model should use for groups about a theme, e.g. "work" → blue
+export interface PaletteEntry {
+  theme: string;
+  color: TabGroupColor;
+}
+
+// User tuning for the categorization prompt (see promptService)
+export interface PromptSettings {
+  instructions: string;       // free text appended to the system prompt
+  minGroups: number | null;   // per run; null = no limit
+  maxGroups: number | null;
+  palette: PaletteEntry[];
+  learnFromEdits: boolean;    // record review edits and send relevant ones as examples
+}
+
+// A change the user made in review, later shown to the model as an example.
+// Stored after the privacy filter, since it is sent along with grouping requests.
+export interface LearnedCorrection {
+  id: string;
+  domain: string;                // hostname without www.
+  title: string;                 // most recent example title
+  groupName: string | null;      // where the user put the tab; null = kept out of any group
+  proposedGroup: string | null;  // what the engine suggested; null = left unsorted
+  count: number;                 // times the same correction was made
+  updatedAt: number;
+}
+
+// Per-group preferences, keyed by normalized group title so they survive
+// browser restarts (Chrome group ids don't)
+// How an organize run treats a group that already exists: left alone, offered
+// as a target for other tabs, or broken up so its tabs are regrouped
+export type ExistingGroupMode = 'lock' | 'merge' | 'dissolve';
+
+export interface GroupPrefs {
+  sticky?: boolean;  // accepts auto-assigned tabs; defaults to true
+  mode?: ExistingGroupMode;  // chosen by the user; see groupMode for the default
+  createdByExtension?: boolean;  // set by the service worker when it creates a group with this title
+}
+
+// Scheduled runs are driven by chrome.alarms in the service worker
+export type ScheduledTask = 'cleanup' | 'organize';
+
+export interface Schedule {
+  id: string;
+  task: ScheduledTask;
+  enabled: boolean;
+  mode: 'interval' | 'weekly';
+  intervalMinutes: number;      // interval mode
+  days: number[];               // weekly mode, 0 = Sunday
+  time: string;                 // weekly mode, "HH:MM" local time
+  requireConfirmation: boolean; // store the result for review instead of applying it
+}
+
+// Result of a scheduled run waiting in the REVIEW screen; the action icon is
+// badged until the user applies or cancels it
+export interface PendingReview {
+  task: ScheduledTask;
+  createdAt: number;
+  proposals: TabGroupProposal[];
+  unassignedTabIds: number[];
+  withheldTabIds: number[];
+  ruleTabIds?: number[];
+  cleanupCandidates: CleanupCandidate[];
+}
+
 export interface Settings {
   apiKey: string;
   model: string;
+  provider: ProviderConfig;
+  groupingEngine: GroupingEngine;
+  localFallback: boolean;  // group locally when the AI request fails
+  privacy: PrivacySettings;
+  cleanup: CleanupSettings;
+  graveyard: GraveyardSettings;
+  schedules: Schedule[];
+  autoAssign: AutoAssignSettings;
+  rules: GroupingRule[];
+  prompt: PromptSettings;
+  windows: WindowSettings;
+  ordering: OrderSettings;
+  focus: FocusSettings;
+  bookmarks: BookmarkSettings;
+  incrementalOrganize: boolean;  // keep existing groups and only sort ungrouped tabs into them
 }
 
+// Which rule flagged a duplicate:
+// exact-url = identical URL, canonical-url = identical after normalization,
+// fragment-only = identical apart from the #fragment, same-path = same page
+// ignoring query and anchor, same-title = same site and title
+export type DuplicateRule = 'exact-url' | 'canonical-url' | 'fragment-only' | 'same-path' | 'same-title';
+
 export interface CleanupCandidate {
   tabId: number;
   reason: 'stale' | 'duplicate' | 'stale+duplicate';
   lastAccessed: number;       // ms since epoch
   duplicateOfTabId?: number;  // tabId of the tab being kept
+  duplicateRule?: DuplicateRule;
+  staleThresholdMs?: number;      // threshold that made the tab stale
+  protectedBy?: ProtectionReason; // shown but never selected for closing
+}
+
+// What to do with a cleanup candidate; discard frees memory but keeps the tab
+export type CleanupAction = 'close' | 'discard' | 'keep';
+
+export interface CleanupSummary {
+  closed: number;
+  discarded: number;
+}
+
+// Why the extension closed a tab, kept in the graveyard log
+export type ClosedTabReason = CleanupCandidate['reason'] | 'stashed' | 'manual';
+
+export interface GraveyardEntry {
+  id: string;
+  url: string;
+  title: string;
+  favIconUrl?: string;
+  reason: ClosedTabReason;
+  closedAt: number;    // ms since epoch
+  groupName?: string;  // group or stack the tab was in when closed
+}
+
+// Graveyard entries beyond either limit are pruned
+export interface GraveyardSettings {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+export type ProtectionReason = 'audible' | 'active' | 'grouped' | 'never-close';
+
+// Per-site stale threshold override
+export interface DomainThreshold {
+  pattern: string;  // see services/urlPatterns.ts
+  thresholdMs: number;
+}
+
+// Query params to ignore on matching sites, on top of the built-in tracking params
+export interface SiteIgnoredParams {
+  pattern: string;  // see services/urlPatterns.ts
+  params: string[];
+}
+
+export interface CleanupSettings {
+  nearDuplicates: boolean;  // also flag same-path and same-title tabs
+  siteIgnoredParams: SiteIgnoredParams[];
+  staleThresholdMs: number;
+  domainThresholds: DomainThreshold[];
+  neverClose: string[];     // URL patterns
+  protectAudible: boolean;
+  protectActive: boolean;
+  protectGrouped: boolean;
+}
+
+export interface SavedTab {
+  url: string;
+  title: string;
+  favIconUrl?: string;
+}
+
+// A tab group parked in storage with its tabs closed
+export interface StashedGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  createdAt: number;  // ms since epoch
+  tabs: SavedTab[];   // in original tab order
+}
+
+export interface SessionGroup {
+  name: string;
+  color: TabGroupColor;
+  tabs: SavedTab[];
+}
+
+// Portable snapshot of grouped tabs, written and read by the JSON export
+export interface Session {
+  version: 1;
+  exportedAt: number;  // ms since epoch
+  groups: SessionGroup[];
+  ungrouped: SavedTab[];
+}
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+// A folder in the browser's bookmarks, as listed by the bookmark picker
+export interface BookmarkFolder {
+  id: string;
+  title: string;
+  path: string;       // enclosing folders and this one, joined with " / "
+  linkCount: number;  // bookmarks directly inside; opening the folder opens these
+}
+
+// Summary of a window snapshot taken before an organize/cleanup, for the undo UI
+export interface UndoEntry {
+  id: string;
+  label: string;      // e.g. "Organized 4 groups, closed 12 tabs"
+  createdAt: number;  // ms since epoch
+  tabCount: number;
 }
 
 export const DEFAULT_MODEL = 'google/gemini-3-flash-preview';
@@ -16,10 +16,17 @@ export default defineConfig(({ mode }) => {
         // Ensure assets use relative paths
         assetsDir: 'assets',
         rollupOptions: {
+          // The service worker is built from the same services as the popup
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            background: path.resolve(__dirname, 'background.ts'),
+          },
           output: {
-            // Consistent file names for extension caching
-            entryFileNames: 'assets/[name].js',
+            // Consistent file names for extension caching; the manifest expects background.js at the root
+            entryFileNames: (chunk) => chunk.name === 'background' ? 'background.js' : 'assets/[name].js',
             chunkFileNames: 'assets/[name].js',
+            // Code shared by the popup and the service worker lands in one named chunk
+            manualChunks: (id) => id.includes('/services/') || id.endsWith('/types.ts') ? 'services' : undefined,
             assetFileNames: 'assets/[name].[ext]'
           }
         }